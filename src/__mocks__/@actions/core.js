@@ -26,6 +26,12 @@ module.exports = {
     addCodeBlock: jest.fn(function () {
       return this;
     }),
+    addTable: jest.fn(function () {
+      return this;
+    }),
+    addList: jest.fn(function () {
+      return this;
+    }),
     write: jest.fn(function () {
       return Promise.resolve();
     })
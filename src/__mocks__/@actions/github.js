@@ -2,15 +2,39 @@
 module.exports = {
   context: {
     actor: 'test-actor',
+    workflow: 'CI',
+    job: 'build',
+    serverUrl: 'https://github.com',
+    payload: {},
+    runId: 1234,
+    runAttempt: 1,
     repo: {
       owner: 'test-owner',
       repo: 'test-repo'
     }
   },
   getOctokit: jest.fn(() => ({
+    paginate: jest.fn(async () => []),
     rest: {
+      actions: {
+        listJobsForWorkflowRunAttempt: jest.fn()
+      },
+      issues: {
+        listComments: jest.fn(),
+        createComment: jest.fn(),
+        updateComment: jest.fn()
+      },
       repos: {
-        get: jest.fn()
+        get: jest.fn(),
+        listReleases: jest.fn()
+      },
+      teams: {
+        listMembersInOrg: jest.fn()
+      },
+      users: {
+        listPublicKeysForUser: jest.fn(async () => ({
+          data: [{id: 1, key: 'ssh-ed25519 AAAAC3NzaC1lZDI1NTE5AAAAIKWvo8wE76yRp2GZSFVOLnHbjdY8keoTOIWJLHFdfJPZ'}]
+        }))
       }
     }
   }))
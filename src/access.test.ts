@@ -0,0 +1,170 @@
+import {AllowedUsers, Octokit, getCodeOwnersFile, getCollaboratorsWithRole, getKeyFingerprint, getTeamMembers, getUserPublicKeys, grantAccess, parseCodeOwners, parseRepositoryRole, parseTeamReferences} from './access';
+
+function createOctokit(paginate: jest.Mock, getContent: jest.Mock = jest.fn(), listPublicKeysForUser: jest.Mock = jest.fn()): Octokit {
+  return {
+    paginate,
+    rest: {
+      users: {
+        listPublicKeysForUser
+      },
+      repos: {
+        getContent,
+        listCollaborators: jest.fn()
+      },
+      teams: {
+        listMembersInOrg: jest.fn()
+      }
+    }
+  } as unknown as Octokit;
+}
+
+function httpError(status: number): Error {
+  return Object.assign(new Error(`HTTP ${status}`), {status});
+}
+
+describe('parseTeamReferences', () => {
+  it('should parse org/team-slug entries', () => {
+    expect(parseTeamReferences('my-org/on-call, my-org/sre\nother-org/platform_team')).toEqual([
+      {org: 'my-org', slug: 'on-call'},
+      {org: 'my-org', slug: 'sre'},
+      {org: 'other-org', slug: 'platform_team'}
+    ]);
+    expect(parseTeamReferences('')).toEqual([]);
+  });
+
+  it('should reject entries without an org', () => {
+    expect(() => parseTeamReferences('on-call')).toThrow('Invalid team "on-call" in limit-access-to-teams: expected the form org/team-slug');
+    expect(() => parseTeamReferences('my-org/')).toThrow('Invalid team "my-org/"');
+  });
+});
+
+describe('getTeamMembers', () => {
+  it('should return the logins of all team members', async () => {
+    const paginate = jest.fn().mockResolvedValue([{login: 'octocat'}, {login: 'hubot'}]);
+    const octokit = createOctokit(paginate);
+
+    await expect(getTeamMembers(octokit, {org: 'my-org', slug: 'on-call'})).resolves.toEqual(['octocat', 'hubot']);
+    expect(paginate).toHaveBeenCalledWith(octokit.rest.teams.listMembersInOrg, {org: 'my-org', team_slug: 'on-call', per_page: 100});
+  });
+
+  it('should explain unknown teams', async () => {
+    const octokit = createOctokit(jest.fn().mockRejectedValue(httpError(404)));
+    await expect(getTeamMembers(octokit, {org: 'my-org', slug: 'typo'})).rejects.toThrow('Failed to read members of team my-org/typo: the team does not exist, or the github-token cannot see it');
+  });
+
+  it('should explain tokens without read:org', async () => {
+    const octokit = createOctokit(jest.fn().mockRejectedValue(httpError(403)));
+    await expect(getTeamMembers(octokit, {org: 'my-org', slug: 'on-call'})).rejects.toThrow('the github-token is not allowed to read team membership (it needs the read:org scope)');
+  });
+
+  it('should pass through other errors', async () => {
+    const octokit = createOctokit(jest.fn().mockRejectedValue(new Error('socket hang up')));
+    await expect(getTeamMembers(octokit, {org: 'my-org', slug: 'on-call'})).rejects.toThrow('Failed to read members of team my-org/on-call: Error: socket hang up');
+  });
+});
+
+describe('grantAccess', () => {
+  it('should merge the sources of users granted access more than once', () => {
+    const allowedUsers: AllowedUsers = new Map();
+    grantAccess(allowedUsers, ['octocat', 'hubot'], 'limit-access-to-users');
+    grantAccess(allowedUsers, ['octocat'], 'team my-org/on-call');
+    grantAccess(allowedUsers, ['octocat'], 'team my-org/on-call');
+
+    expect([...allowedUsers]).toEqual([
+      ['octocat', ['limit-access-to-users', 'team my-org/on-call']],
+      ['hubot', ['limit-access-to-users']]
+    ]);
+  });
+});
+
+describe('parseRepositoryRole', () => {
+  it('should accept supported roles', () => {
+    expect(parseRepositoryRole('')).toBeUndefined();
+    expect(parseRepositoryRole('write')).toBe('write');
+    expect(parseRepositoryRole(' Admin ')).toBe('admin');
+  });
+
+  it('should reject other roles', () => {
+    expect(() => parseRepositoryRole('push')).toThrow('Invalid limit-access-to-role "push": expected one of write, maintain, admin');
+  });
+});
+
+describe('getCollaboratorsWithRole', () => {
+  const collaborators = [
+    {login: 'reader', permissions: {pull: true, push: false, maintain: false, admin: false}},
+    {login: 'writer', permissions: {pull: true, push: true, maintain: false, admin: false}},
+    {login: 'maintainer', permissions: {pull: true, push: true, maintain: true, admin: false}},
+    {login: 'owner', permissions: {pull: true, push: true, maintain: true, admin: true}}
+  ];
+  const repository = {owner: 'test-owner', repo: 'test-repo'};
+
+  it('should return collaborators with at least the given role', async () => {
+    const paginate = jest.fn().mockResolvedValue(collaborators);
+    const octokit = createOctokit(paginate);
+
+    await expect(getCollaboratorsWithRole(octokit, repository, 'write')).resolves.toEqual(['writer', 'maintainer', 'owner']);
+    await expect(getCollaboratorsWithRole(octokit, repository, 'maintain')).resolves.toEqual(['maintainer', 'owner']);
+    await expect(getCollaboratorsWithRole(octokit, repository, 'admin')).resolves.toEqual(['owner']);
+    expect(paginate).toHaveBeenCalledWith(octokit.rest.repos.listCollaborators, {owner: 'test-owner', repo: 'test-repo', per_page: 100});
+  });
+
+  it('should explain tokens that cannot list collaborators', async () => {
+    const octokit = createOctokit(jest.fn().mockRejectedValue(httpError(403)));
+    await expect(getCollaboratorsWithRole(octokit, repository, 'write')).rejects.toThrow('Failed to list collaborators of test-owner/test-repo: the github-token is not allowed to list collaborators');
+  });
+});
+
+describe('parseCodeOwners', () => {
+  it('should return individual owners only', () => {
+    const content = ['# Default owners', '*       @octocat @my-org/core-team', '/docs/  docs@example.com @hubot # the docs person', '*.ts    @octocat @monalisa', '/empty/'].join('\n');
+
+    expect(parseCodeOwners(content)).toEqual(['octocat', 'hubot', 'monalisa']);
+  });
+});
+
+describe('getCodeOwnersFile', () => {
+  const repository = {owner: 'test-owner', repo: 'test-repo'};
+
+  it('should read the first CODEOWNERS file found on the default branch', async () => {
+    const getContent = jest
+      .fn()
+      .mockRejectedValueOnce(httpError(404))
+      .mockResolvedValueOnce({data: {type: 'file', content: Buffer.from('* @octocat\n').toString('base64')}});
+    const octokit = createOctokit(jest.fn(), getContent);
+
+    await expect(getCodeOwnersFile(octokit, repository)).resolves.toEqual({path: 'CODEOWNERS', content: '* @octocat\n'});
+    expect(getContent).toHaveBeenNthCalledWith(1, {owner: 'test-owner', repo: 'test-repo', path: '.github/CODEOWNERS'});
+    expect(getContent).toHaveBeenNthCalledWith(2, {owner: 'test-owner', repo: 'test-repo', path: 'CODEOWNERS'});
+  });
+
+  it('should fail when there is no CODEOWNERS file', async () => {
+    const octokit = createOctokit(jest.fn(), jest.fn().mockRejectedValue(httpError(404)));
+    await expect(getCodeOwnersFile(octokit, repository)).rejects.toThrow(
+      'limit-access-to-codeowners is set, but test-owner/test-repo has no CODEOWNERS file on its default branch (looked for .github/CODEOWNERS, CODEOWNERS, docs/CODEOWNERS)'
+    );
+  });
+});
+
+describe('SSH public keys', () => {
+  const key = 'ssh-ed25519 AAAAC3NzaC1lZDI1NTE5AAAAIKWvo8wE76yRp2GZSFVOLnHbjdY8keoTOIWJLHFdfJPZ';
+
+  it('should compute OpenSSH SHA256 fingerprints', () => {
+    const fingerprint = 'SHA256:FwShjcMmBO2eC3sJxUY1pNCnGr6DLY0zIYbL5/ZYIfE';
+    expect(getKeyFingerprint(key)).toBe(fingerprint);
+    expect(getKeyFingerprint(`no-pty,from="10.0.0.0/8" ${key} user@host`)).toBe(fingerprint);
+    expect(getKeyFingerprint('not a key')).toBe('');
+  });
+
+  it('should list the keys of a GitHub user', async () => {
+    const listPublicKeysForUser = jest.fn().mockResolvedValue({data: [{id: 1, key}]});
+    const octokit = createOctokit(jest.fn(), jest.fn(), listPublicKeysForUser);
+
+    await expect(getUserPublicKeys(octokit, 'octocat')).resolves.toEqual([key]);
+    expect(listPublicKeysForUser).toHaveBeenCalledWith({username: 'octocat', per_page: 100});
+  });
+
+  it('should return null for unknown users', async () => {
+    const octokit = createOctokit(jest.fn(), jest.fn(), jest.fn().mockRejectedValue(httpError(404)));
+    await expect(getUserPublicKeys(octokit, 'no-such-user')).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,242 @@
+import crypto from 'crypto';
+import * as github from '@actions/github';
+
+export type Octokit = ReturnType<typeof github.getOctokit>;
+
+/**
+ * A GitHub team reference as given in `limit-access-to-teams`.
+ */
+export interface TeamReference {
+  org: string;
+  slug: string;
+}
+
+export interface RepositoryReference {
+  owner: string;
+  repo: string;
+}
+
+/**
+ * Minimum repository permission accepted by `limit-access-to-role`.
+ */
+export type RepositoryRole = 'write' | 'maintain' | 'admin';
+
+/**
+ * GitHub users granted access to the session, each with the input(s) that granted it.
+ */
+export type AllowedUsers = Map<string, string[]>;
+
+const TEAM_PATTERN = /^([A-Za-z0-9](?:[A-Za-z0-9-]*[A-Za-z0-9])?)\/([A-Za-z0-9_.-]+)$/;
+const REPOSITORY_ROLES: readonly RepositoryRole[] = ['write', 'maintain', 'admin'];
+// Individual owners only: teams (@org/team) and email addresses are skipped
+const CODEOWNER_USER_PATTERN = /^@([A-Za-z0-9](?:[A-Za-z0-9-]*[A-Za-z0-9])?)$/;
+// Locations GitHub searches for CODEOWNERS, in order
+export const CODEOWNERS_PATHS = ['.github/CODEOWNERS', 'CODEOWNERS', 'docs/CODEOWNERS'] as const;
+
+function getErrorStatus(error: unknown): number | undefined {
+  if (error && typeof error === 'object' && 'status' in error) {
+    return Number((error as {status: unknown}).status);
+  }
+  return undefined;
+}
+
+/**
+ * Turn a GitHub API error into a message that says which permission is missing.
+ */
+function describeApiError(error: unknown, action: string, hints: {forbidden: string; notFound: string}): Error {
+  switch (getErrorStatus(error)) {
+    case 401:
+      return new Error(`Failed to ${action}: the github-token is invalid or expired`);
+    case 403:
+      return new Error(`Failed to ${action}: ${hints.forbidden}`);
+    case 404:
+      return new Error(`Failed to ${action}: ${hints.notFound}`);
+    default:
+      return new Error(`Failed to ${action}: ${error}`);
+  }
+}
+
+/**
+ * Record that `logins` were granted access by `source`.
+ */
+export function grantAccess(allowedUsers: AllowedUsers, logins: string[], source: string): void {
+  for (const login of logins) {
+    const sources = allowedUsers.get(login) ?? [];
+    if (!sources.includes(source)) {
+      sources.push(source);
+    }
+    allowedUsers.set(login, sources);
+  }
+}
+
+/**
+ * Parse `org/team-slug` entries (separated by whitespace, newlines or commas).
+ *
+ * @throws Error if an entry is not of the form `org/team-slug`
+ */
+export function parseTeamReferences(input: string): TeamReference[] {
+  return input
+    .split(/[\s\n,]+/)
+    .filter(Boolean)
+    .map(entry => {
+      const match = entry.match(TEAM_PATTERN);
+      if (!match) {
+        throw new Error(`Invalid team "${entry}" in limit-access-to-teams: expected the form org/team-slug`);
+      }
+      return {org: match[1], slug: match[2]};
+    });
+}
+
+/**
+ * Resolve the logins of all members of a GitHub team.
+ *
+ * @throws Error with an actionable message if the team cannot be read
+ */
+export async function getTeamMembers(octokit: Octokit, team: TeamReference): Promise<string[]> {
+  try {
+    const members = await octokit.paginate(octokit.rest.teams.listMembersInOrg, {org: team.org, team_slug: team.slug, per_page: 100});
+    return members.map(member => member.login);
+  } catch (error) {
+    throw describeApiError(error, `read members of team ${team.org}/${team.slug}`, {
+      forbidden: 'the github-token is not allowed to read team membership (it needs the read:org scope)',
+      notFound: 'the team does not exist, or the github-token cannot see it (it needs the read:org scope; the default GITHUB_TOKEN does not have it)'
+    });
+  }
+}
+
+/**
+ * Parse the `limit-access-to-role` input.
+ *
+ * @returns The role, or undefined if the input is empty
+ * @throws Error if the input is not a supported role
+ */
+export function parseRepositoryRole(input: string): RepositoryRole | undefined {
+  const role = input.trim().toLowerCase();
+  if (!role) {
+    return undefined;
+  }
+  if (!(REPOSITORY_ROLES as readonly string[]).includes(role)) {
+    throw new Error(`Invalid limit-access-to-role "${input}": expected one of ${REPOSITORY_ROLES.join(', ')}`);
+  }
+  return role as RepositoryRole;
+}
+
+function hasRole(permissions: {push?: boolean; maintain?: boolean; admin?: boolean} | undefined, role: RepositoryRole): boolean {
+  if (!permissions) {
+    return false;
+  }
+  switch (role) {
+    case 'admin':
+      return Boolean(permissions.admin);
+    case 'maintain':
+      return Boolean(permissions.maintain || permissions.admin);
+    case 'write':
+      return Boolean(permissions.push || permissions.maintain || permissions.admin);
+  }
+}
+
+/**
+ * Resolve the logins of all collaborators with at least `role` on the repository.
+ *
+ * @throws Error with an actionable message if the collaborators cannot be listed
+ */
+export async function getCollaboratorsWithRole(octokit: Octokit, repository: RepositoryReference, role: RepositoryRole): Promise<string[]> {
+  try {
+    const collaborators = await octokit.paginate(octokit.rest.repos.listCollaborators, {...repository, per_page: 100});
+    return collaborators.filter(collaborator => hasRole(collaborator.permissions, role)).map(collaborator => collaborator.login);
+  } catch (error) {
+    throw describeApiError(error, `list collaborators of ${repository.owner}/${repository.repo}`, {
+      forbidden: 'the github-token is not allowed to list collaborators (it needs push access to the repository)',
+      notFound: 'the repository does not exist, or the github-token cannot see it'
+    });
+  }
+}
+
+/**
+ * Extract the individual GitHub users listed as owners in a CODEOWNERS file.
+ * Teams and email addresses are ignored.
+ */
+export function parseCodeOwners(content: string): string[] {
+  const owners = new Set<string>();
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/(^|\s)#.*$/, '').trim();
+    if (!line) continue;
+
+    // The first field is the path pattern, the rest are owners
+    for (const owner of line.split(/\s+/).slice(1)) {
+      const match = owner.match(CODEOWNER_USER_PATTERN);
+      if (match) {
+        owners.add(match[1]);
+      }
+    }
+  }
+  return [...owners];
+}
+
+/**
+ * Read the CODEOWNERS file from the repository's default branch.
+ *
+ * The default branch is used on purpose: reading the file from the ref being
+ * built would let a pull request grant its author access to the runner.
+ *
+ * @returns The path and contents of the first CODEOWNERS file found
+ * @throws Error if no CODEOWNERS file exists or it cannot be read
+ */
+export async function getCodeOwnersFile(octokit: Octokit, repository: RepositoryReference): Promise<{path: string; content: string}> {
+  for (const filePath of CODEOWNERS_PATHS) {
+    try {
+      const {data} = await octokit.rest.repos.getContent({...repository, path: filePath});
+      if (!Array.isArray(data) && data.type === 'file' && 'content' in data) {
+        return {path: filePath, content: Buffer.from(data.content, 'base64').toString('utf8')};
+      }
+    } catch (error) {
+      if (getErrorStatus(error) === 404) continue;
+      throw describeApiError(error, `read ${filePath} of ${repository.owner}/${repository.repo}`, {
+        forbidden: 'the github-token is not allowed to read repository contents (it needs the contents: read permission)',
+        notFound: 'the file does not exist'
+      });
+    }
+  }
+  throw new Error(`limit-access-to-codeowners is set, but ${repository.owner}/${repository.repo} has no CODEOWNERS file on its default branch (looked for ${CODEOWNERS_PATHS.join(', ')})`);
+}
+
+// The base64 key blob of an SSH public key; blobs always start with a length prefix encoded as AAAA
+export const KEY_BLOB_PATTERN = /^AAAA[A-Za-z0-9+/]+={0,3}$/;
+
+/**
+ * Compute the OpenSSH-style SHA256 fingerprint of a public key or authorized_keys entry.
+ *
+ * @returns The fingerprint (e.g. `SHA256:...`), or an empty string if no key blob is found
+ */
+export function getKeyFingerprint(key: string): string {
+  const blob = key
+    .trim()
+    .split(/\s+/)
+    .find(field => KEY_BLOB_PATTERN.test(field));
+  if (!blob) {
+    return '';
+  }
+  const digest = crypto.createHash('sha256').update(Buffer.from(blob, 'base64')).digest('base64');
+  return `SHA256:${digest.replace(/=+$/, '')}`;
+}
+
+/**
+ * Resolve the public SSH keys a GitHub user has registered on their profile.
+ *
+ * @returns The keys, or null if the user does not exist
+ * @throws Error with an actionable message if the keys cannot be read
+ */
+export async function getUserPublicKeys(octokit: Octokit, login: string): Promise<string[] | null> {
+  try {
+    const {data} = await octokit.rest.users.listPublicKeysForUser({username: login, per_page: 100});
+    return data.map(key => key.key);
+  } catch (error) {
+    if (getErrorStatus(error) === 404) {
+      return null;
+    }
+    throw describeApiError(error, `read public SSH keys of ${login}`, {
+      forbidden: 'the GitHub API refused the request (it may be rate limited)',
+      notFound: 'the user does not exist'
+    });
+  }
+}
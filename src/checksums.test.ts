@@ -0,0 +1,25 @@
+import {isSha256Digest, parseChecksums} from './checksums';
+
+describe('parseChecksums', () => {
+  it('should parse sha256sum output', () => {
+    const content = [
+      '0c4f2a6ea2a41a4bd5eb1a4fbc6a3dc1b3a9d1b0f1d4b9c66b2b35d3f0d7c2a1  upterm_linux_amd64.tar.gz',
+      '1D4F2A6EA2A41A4BD5EB1A4FBC6A3DC1B3A9D1B0F1D4B9C66B2B35D3F0D7C2A2 *upterm_windows_amd64.tar.gz',
+      '',
+      'not a checksum line'
+    ].join('\r\n');
+
+    expect([...parseChecksums(content)]).toEqual([
+      ['upterm_linux_amd64.tar.gz', '0c4f2a6ea2a41a4bd5eb1a4fbc6a3dc1b3a9d1b0f1d4b9c66b2b35d3f0d7c2a1'],
+      ['upterm_windows_amd64.tar.gz', '1d4f2a6ea2a41a4bd5eb1a4fbc6a3dc1b3a9d1b0f1d4b9c66b2b35d3f0d7c2a2']
+    ]);
+  });
+});
+
+describe('isSha256Digest', () => {
+  it('should accept 64 hex digits only', () => {
+    expect(isSha256Digest('0c4f2a6ea2a41a4bd5eb1a4fbc6a3dc1b3a9d1b0f1d4b9c66b2b35d3f0d7c2a1')).toBe(true);
+    expect(isSha256Digest('0c4f2a6e')).toBe(false);
+    expect(isSha256Digest('sha256:0c4f2a6ea2a41a4bd5eb1a4fbc6a3dc1b3a9d1b0f1d4b9c66b2b35d3f0d7c2a1')).toBe(false);
+  });
+});
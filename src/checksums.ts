@@ -0,0 +1,26 @@
+// Matches a `sha256sum`-style line: `<hex digest>  <file name>`, where binary
+// mode marks the file name with a leading `*`
+const CHECKSUM_LINE_PATTERN = /^([0-9a-fA-F]{64})\s+\*?(\S+)$/;
+
+/**
+ * Parse a checksums file as published with upterm releases.
+ *
+ * @returns SHA-256 digests (lower-case hex) by file name
+ */
+export function parseChecksums(content: string): Map<string, string> {
+  const checksums = new Map<string, string>();
+  for (const line of content.split(/\r?\n/)) {
+    const match = line.trim().match(CHECKSUM_LINE_PATTERN);
+    if (match) {
+      checksums.set(match[2], match[1].toLowerCase());
+    }
+  }
+  return checksums;
+}
+
+/**
+ * Check that a string is a SHA-256 digest in hex.
+ */
+export function isSha256Digest(value: string): boolean {
+  return /^[0-9a-fA-F]{64}$/.test(value);
+}
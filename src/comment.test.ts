@@ -0,0 +1,101 @@
+import {Octokit} from './access';
+import {SessionComment, buildCommentBody, formatDuration, getCommentMarker, upsertPullRequestComment} from './comment';
+
+const comment: SessionComment = {
+  jobName: 'CI / build',
+  runUrl: 'https://github.com/test-owner/test-repo/actions/runs/1234',
+  sshCommand: 'ssh abc@uptermd.upterm.dev',
+  allowedUsers: ['octocat', 'hubot'],
+  startedAt: '2026-01-01T12:00:00.000Z'
+};
+
+function createOctokit(existingComments: {id: number; body?: string; user?: {type: string}}[]): Octokit {
+  return {
+    paginate: jest.fn().mockResolvedValue(existingComments),
+    rest: {
+      issues: {
+        listComments: jest.fn(),
+        createComment: jest.fn().mockResolvedValue({}),
+        updateComment: jest.fn().mockResolvedValue({})
+      }
+    }
+  } as unknown as Octokit;
+}
+
+describe('formatDuration', () => {
+  it('should format durations', () => {
+    expect(formatDuration(4200)).toBe('4s');
+    expect(formatDuration(125000)).toBe('2m 5s');
+    expect(formatDuration(3723000)).toBe('1h 2m 3s');
+    expect(formatDuration(-1)).toBe('0s');
+  });
+});
+
+describe('buildCommentBody', () => {
+  it('should show an active session', () => {
+    const body = buildCommentBody(comment);
+    expect(body.startsWith('<!-- action-upterm: CI / build -->\n')).toBe(true);
+    expect(body).toContain('### Upterm debugging session for [CI / build](https://github.com/test-owner/test-repo/actions/runs/1234)');
+    expect(body).toContain('**State:** Active since 2026-01-01T12:00:00.000Z');
+    expect(body).toContain('**Allowed users:** `octocat`, `hubot`');
+    expect(body).toContain('Connect with:\n\n```bash\nssh abc@uptermd.upterm.dev\n```');
+  });
+
+  it('should show how a session ended', () => {
+    const body = buildCommentBody({...comment, allowedUsers: [], endedAt: '2026-01-01T12:12:05.000Z', reason: 'continue'});
+    expect(body).toContain('**State:** Ended after 12m 5s (continue)');
+    expect(body).toContain('**Allowed users:** anyone with the SSH command');
+    expect(body).toContain('this command no longer connects');
+  });
+
+  it('should explain how to decrypt an encrypted SSH command', () => {
+    const armored = '-----BEGIN AGE ENCRYPTED FILE-----\nYWdl\n-----END AGE ENCRYPTED FILE-----';
+    const body = buildCommentBody({...comment, sshCommand: armored, encrypted: true});
+    expect(body).toContain(`Decrypt the SSH command with \`age --decrypt -i ~/.ssh/id_ed25519\`, then connect with it:\n\n\`\`\`\n${armored}\n\`\`\``);
+  });
+
+  it('should leave out an SSH command that must not be published', () => {
+    const body = buildCommentBody({...comment, sshCommand: undefined});
+    expect(body).not.toContain('```');
+    expect(body).toContain('The SSH command is left out because anyone can read this comment. See the [workflow run](https://github.com/test-owner/test-repo/actions/runs/1234)');
+  });
+
+  it('should keep the marker a valid HTML comment', () => {
+    expect(getCommentMarker('a -- b')).toBe('<!-- action-upterm: a - - b -->');
+  });
+});
+
+describe('upsertPullRequestComment', () => {
+  const pullRequest = {owner: 'test-owner', repo: 'test-repo', number: 42};
+
+  it('should create the comment the first time', async () => {
+    const octokit = createOctokit([{id: 1, body: 'LGTM'}]);
+
+    await upsertPullRequestComment(octokit, pullRequest, comment);
+
+    expect(octokit.paginate).toHaveBeenCalledWith(octokit.rest.issues.listComments, {owner: 'test-owner', repo: 'test-repo', issue_number: 42, per_page: 100});
+    expect(octokit.rest.issues.createComment).toHaveBeenCalledWith({owner: 'test-owner', repo: 'test-repo', issue_number: 42, body: buildCommentBody(comment)});
+    expect(octokit.rest.issues.updateComment).not.toHaveBeenCalled();
+  });
+
+  it('should edit the comment of the same job in place', async () => {
+    const octokit = createOctokit([
+      {id: 1, body: `${getCommentMarker('CI / test')}\nother job`, user: {type: 'Bot'}},
+      {id: 2, body: `${getCommentMarker('CI / build')}\nold`, user: {type: 'Bot'}}
+    ]);
+
+    await upsertPullRequestComment(octokit, pullRequest, comment);
+
+    expect(octokit.rest.issues.updateComment).toHaveBeenCalledWith({owner: 'test-owner', repo: 'test-repo', comment_id: 2, body: buildCommentBody(comment)});
+    expect(octokit.rest.issues.createComment).not.toHaveBeenCalled();
+  });
+
+  it('should not edit a comment with the marker that was not posted by a bot', async () => {
+    const octokit = createOctokit([{id: 3, body: `${getCommentMarker('CI / build')}\nspoofed`, user: {type: 'User'}}]);
+
+    await upsertPullRequestComment(octokit, pullRequest, comment);
+
+    expect(octokit.rest.issues.updateComment).not.toHaveBeenCalled();
+    expect(octokit.rest.issues.createComment).toHaveBeenCalledWith({owner: 'test-owner', repo: 'test-repo', issue_number: 42, body: buildCommentBody(comment)});
+  });
+});
@@ -0,0 +1,88 @@
+import {Octokit} from './access';
+
+/**
+ * What the sticky pull request comment shows about a session.
+ */
+export interface SessionComment {
+  // Identifies the job and matrix leg, so that every one keeps its own sticky comment
+  jobName: string;
+  runUrl: string;
+  // Left out when the session token is masked and sshCommand is not encrypted
+  sshCommand?: string;
+  // Whether sshCommand is encrypted to the allowed users' SSH keys (encrypt-ssh-command)
+  encrypted?: boolean;
+  allowedUsers: string[];
+  startedAt: string;
+  // Set once the session has ended
+  endedAt?: string;
+  reason?: string;
+}
+
+export interface PullRequestReference {
+  owner: string;
+  repo: string;
+  number: number;
+}
+
+/**
+ * Hidden marker that identifies the sticky comment of a job.
+ */
+export function getCommentMarker(jobName: string): string {
+  return `<!-- action-upterm: ${jobName.replace(/--/g, '- -')} -->`;
+}
+
+/**
+ * Format a duration as e.g. `1h 2m 3s`.
+ */
+export function formatDuration(milliseconds: number): string {
+  const totalSeconds = Math.max(0, Math.round(milliseconds / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const parts = hours > 0 ? [`${hours}h`, `${minutes}m`] : minutes > 0 ? [`${minutes}m`] : [];
+  return [...parts, `${seconds}s`].join(' ');
+}
+
+/**
+ * Render the Markdown body of the sticky comment.
+ */
+export function buildCommentBody(comment: SessionComment): string {
+  const state = comment.endedAt ? `Ended after ${formatDuration(Date.parse(comment.endedAt) - Date.parse(comment.startedAt))} (${comment.reason ?? 'unknown reason'})` : `Active since ${comment.startedAt}`;
+  const allowedUsers = comment.allowedUsers.length > 0 ? comment.allowedUsers.map(user => `\`${user}\``).join(', ') : 'anyone with the SSH command';
+
+  const header = [getCommentMarker(comment.jobName), `### Upterm debugging session for [${comment.jobName}](${comment.runUrl})`, '', `**State:** ${state}`, `**Allowed users:** ${allowedUsers}`, ''];
+  if (comment.sshCommand === undefined) {
+    return [...header, `The SSH command is left out because anyone can read this comment. See the [workflow run](${comment.runUrl}), or set \`encrypt-ssh-command\` to post it here encrypted to the SSH keys of the allowed users.`].join(
+      '\n'
+    );
+  }
+
+  return [
+    ...header,
+    comment.endedAt ? 'The session is over; this command no longer connects:' : comment.encrypted ? 'Decrypt the SSH command with `age --decrypt -i ~/.ssh/id_ed25519`, then connect with it:' : 'Connect with:',
+    '',
+    comment.encrypted ? '```' : '```bash',
+    comment.sshCommand,
+    '```'
+  ].join('\n');
+}
+
+/**
+ * Create the sticky comment of a job on a pull request, or edit it in place
+ * if it already exists.
+ */
+export async function upsertPullRequestComment(octokit: Octokit, pullRequest: PullRequestReference, comment: SessionComment): Promise<void> {
+  const issue = {owner: pullRequest.owner, repo: pullRequest.repo, issue_number: pullRequest.number};
+  const marker = getCommentMarker(comment.jobName);
+  const body = buildCommentBody(comment);
+
+  const comments = await octokit.paginate(octokit.rest.issues.listComments, {...issue, per_page: 100});
+  // Anyone can post a comment that starts with the marker, but only bots (such
+  // as github-actions[bot]) can have posted ours
+  const existing = comments.find(candidate => candidate.user?.type === 'Bot' && candidate.body?.startsWith(marker));
+  if (existing) {
+    await octokit.rest.issues.updateComment({owner: pullRequest.owner, repo: pullRequest.repo, comment_id: existing.id, body});
+  } else {
+    await octokit.rest.issues.createComment({...issue, body});
+  }
+}
@@ -0,0 +1,179 @@
+import crypto from 'crypto';
+import {SshPublicKey, encryptToSshKeys, isEncryptionKey, parseSshPublicKey} from './encryption';
+
+const X25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b656e04220420', 'hex');
+const X25519_SPKI_PREFIX = Buffer.from('302a300506032b656e032100', 'hex');
+const X25519_BASE_POINT = Buffer.concat([Buffer.from([9]), Buffer.alloc(31)]);
+
+interface Identity {
+  publicKey: SshPublicKey;
+  privateKey: crypto.KeyObject;
+}
+
+function sshString(value: Buffer | string): Buffer {
+  const data = Buffer.from(value);
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  return Buffer.concat([length, data]);
+}
+
+function sshMpint(value: Buffer): Buffer {
+  return sshString(value[0] & 0x80 ? Buffer.concat([Buffer.alloc(1), value]) : value);
+}
+
+function generateEd25519Identity(): Identity {
+  const {publicKey, privateKey} = crypto.generateKeyPairSync('ed25519');
+  const raw = Buffer.from(publicKey.export({format: 'jwk'}).x as string, 'base64url');
+  return {publicKey: {type: 'ssh-ed25519', blob: Buffer.concat([sshString('ssh-ed25519'), sshString(raw)])}, privateKey};
+}
+
+function generateRsaIdentity(modulusLength: number): Identity {
+  const {publicKey, privateKey} = crypto.generateKeyPairSync('rsa', {modulusLength});
+  const jwk = publicKey.export({format: 'jwk'});
+  const blob = Buffer.concat([sshString('ssh-rsa'), sshMpint(Buffer.from(jwk.e as string, 'base64url')), sshMpint(Buffer.from(jwk.n as string, 'base64url'))]);
+  return {publicKey: {type: 'ssh-rsa', blob}, privateKey};
+}
+
+function x25519(scalar: Buffer, point: Buffer): Buffer {
+  return crypto.diffieHellman({
+    privateKey: crypto.createPrivateKey({key: Buffer.concat([X25519_PKCS8_PREFIX, scalar]), format: 'der', type: 'pkcs8'}),
+    publicKey: crypto.createPublicKey({key: Buffer.concat([X25519_SPKI_PREFIX, point]), format: 'der', type: 'spki'})
+  });
+}
+
+function hkdf(key: Buffer, salt: Buffer, info: string): Buffer {
+  return Buffer.from(crypto.hkdfSync('sha256', key, salt, info, 32));
+}
+
+function open(key: Buffer, nonce: Buffer, sealed: Buffer): Buffer {
+  const decipher = crypto.createDecipheriv('chacha20-poly1305', key, nonce, {authTagLength: 16});
+  decipher.setAuthTag(sealed.subarray(-16));
+  return Buffer.concat([decipher.update(sealed.subarray(0, -16)), decipher.final()]);
+}
+
+function unwrapFileKey(args: string[], body: Buffer, identity: Identity): Buffer | null {
+  const tag = crypto.createHash('sha256').update(identity.publicKey.blob).digest().subarray(0, 4).toString('base64').replace(/=+$/, '');
+  if (args[0] !== identity.publicKey.type || args[1] !== tag) {
+    return null;
+  }
+  if (args[0] === 'ssh-rsa') {
+    return crypto.privateDecrypt({key: identity.privateKey, padding: crypto.constants.RSA_PKCS1_OAEP_PADDING, oaepHash: 'sha256', oaepLabel: Buffer.from('age-encryption.org/v1/ssh-rsa')}, body);
+  }
+
+  // The X25519 scalar of an Ed25519 key is the first half of the SHA-512 of its seed
+  const seed = Buffer.from(identity.privateKey.export({format: 'jwk'}).d as string, 'base64url');
+  const scalar = crypto.createHash('sha512').update(seed).digest().subarray(0, 32);
+  const ourPublicKey = x25519(scalar, X25519_BASE_POINT);
+  const theirPublicKey = Buffer.from(args[2], 'base64');
+  const tweak = hkdf(Buffer.alloc(0), identity.publicKey.blob, 'age-encryption.org/v1/ssh-ed25519');
+  const sharedSecret = x25519(tweak, x25519(scalar, theirPublicKey));
+  const wrappingKey = hkdf(sharedSecret, Buffer.concat([theirPublicKey, ourPublicKey]), 'age-encryption.org/v1/ssh-ed25519');
+  return open(wrappingKey, Buffer.alloc(12), body);
+}
+
+/**
+ * Decrypt an armored age file the way `age --decrypt -i <ssh key>` does.
+ */
+function decrypt(armored: string, identity: Identity): string {
+  const lines = armored.split('\n');
+  expect(lines[0]).toBe('-----BEGIN AGE ENCRYPTED FILE-----');
+  expect(lines[lines.length - 1]).toBe('-----END AGE ENCRYPTED FILE-----');
+  const file = Buffer.from(lines.slice(1, -1).join(''), 'base64');
+
+  const headerEnd = file.indexOf('\n---');
+  const macLineEnd = file.indexOf('\n', headerEnd + 1);
+  const header = file.subarray(0, headerEnd + 4).toString();
+  const mac = Buffer.from(file.subarray(headerEnd + 5, macLineEnd).toString(), 'base64');
+  const [version, ...stanzaLines] = header.split('\n').slice(0, -1);
+  expect(version).toBe('age-encryption.org/v1');
+
+  let fileKey: Buffer | null = null;
+  for (let i = 0; i < stanzaLines.length; ) {
+    const args = stanzaLines[i++].replace(/^-> /, '').split(' ');
+    let body = '';
+    for (let line = stanzaLines[i++]; ; line = stanzaLines[i++]) {
+      body += line;
+      if (line.length < 64) break;
+    }
+    fileKey = fileKey ?? unwrapFileKey(args, Buffer.from(body, 'base64'), identity);
+  }
+  if (!fileKey) {
+    throw new Error('No stanza for this identity');
+  }
+
+  const expectedMac = crypto
+    .createHmac('sha256', hkdf(fileKey, Buffer.alloc(0), 'header'))
+    .update(header)
+    .digest();
+  expect(mac.equals(expectedMac)).toBe(true);
+
+  const nonce = file.subarray(macLineEnd + 1, macLineEnd + 17);
+  const chunkNonce = Buffer.alloc(12);
+  chunkNonce[11] = 1;
+  return open(hkdf(fileKey, nonce, 'payload'), chunkNonce, file.subarray(macLineEnd + 17)).toString();
+}
+
+describe('parseSshPublicKey', () => {
+  it('should read the key type from the key blob', () => {
+    const {publicKey} = generateEd25519Identity();
+    const line = `no-pty,from="10.0.0.1" ssh-ed25519 ${publicKey.blob.toString('base64')} user@host`;
+
+    expect(parseSshPublicKey(line)).toEqual(publicKey);
+  });
+
+  it('should return null without a well-formed key blob', () => {
+    expect(parseSshPublicKey('ssh-ed25519 not-base64 user@host')).toBeNull();
+    expect(parseSshPublicKey('ssh-ed25519 AAAAC3NzaC1lZDI1NTE5AAAA')).toBeNull();
+  });
+});
+
+describe('isEncryptionKey', () => {
+  it('should accept ssh-ed25519 and ssh-rsa keys only', () => {
+    expect(isEncryptionKey({type: 'ssh-ed25519', blob: Buffer.alloc(0)})).toBe(true);
+    expect(isEncryptionKey({type: 'ssh-rsa', blob: Buffer.alloc(0)})).toBe(true);
+    expect(isEncryptionKey({type: 'ecdsa-sha2-nistp256', blob: Buffer.alloc(0)})).toBe(false);
+    expect(isEncryptionKey({type: 'sk-ssh-ed25519@openssh.com', blob: Buffer.alloc(0)})).toBe(false);
+  });
+});
+
+describe('encryptToSshKeys', () => {
+  const sshCommand = 'ssh "abc123:dXB0ZXJtZC51cHRlcm0uZGV2OjIy"@uptermd.upterm.dev\n';
+
+  it('should encrypt to an ssh-ed25519 key', () => {
+    const identity = generateEd25519Identity();
+
+    expect(decrypt(encryptToSshKeys(sshCommand, [identity.publicKey]), identity)).toBe(sshCommand);
+  });
+
+  it('should encrypt to an ssh-rsa key', () => {
+    // A 3072-bit key wraps the file key into a stanza body of exactly eight full lines
+    const identity = generateRsaIdentity(3072);
+
+    expect(decrypt(encryptToSshKeys(sshCommand, [identity.publicKey]), identity)).toBe(sshCommand);
+  });
+
+  it('should let every recipient decrypt', () => {
+    const identities = [generateEd25519Identity(), generateRsaIdentity(2048), generateEd25519Identity()];
+    const armored = encryptToSshKeys(
+      sshCommand,
+      identities.map(identity => identity.publicKey)
+    );
+
+    for (const identity of identities) {
+      expect(decrypt(armored, identity)).toBe(sshCommand);
+    }
+    expect(() => decrypt(armored, generateEd25519Identity())).toThrow('No stanza for this identity');
+  });
+
+  it('should not reveal the plaintext', () => {
+    const armored = encryptToSshKeys(sshCommand, [generateEd25519Identity().publicKey]);
+
+    expect(armored).not.toContain('abc123');
+    expect(armored.split('\n').every(line => line.length <= 64)).toBe(true);
+  });
+
+  it('should reject keys age cannot encrypt to', () => {
+    expect(() => encryptToSshKeys(sshCommand, [])).toThrow('Cannot encrypt without at least one SSH public key');
+    expect(() => encryptToSshKeys(sshCommand, [{type: 'ecdsa-sha2-nistp256', blob: Buffer.alloc(0)}])).toThrow('Cannot encrypt to ecdsa-sha2-nistp256 keys (only to ssh-ed25519, ssh-rsa keys)');
+  });
+});
@@ -0,0 +1,213 @@
+import crypto from 'crypto';
+import {KEY_BLOB_PATTERN} from './access';
+
+// Encryption of short texts to SSH public keys in the age format
+// (https://age-encryption.org/v1), so that the owner of a key can decrypt them
+// with `age --decrypt -i ~/.ssh/id_ed25519`. Like age itself, this supports
+// ssh-ed25519 and ssh-rsa keys.
+
+export const ENCRYPTION_KEY_TYPES = ['ssh-ed25519', 'ssh-rsa'];
+
+/**
+ * An SSH public key, e.g. from an authorized_keys entry.
+ */
+export interface SshPublicKey {
+  type: string;
+  // The key in SSH wire format (the base64-decoded second field of an authorized_keys line)
+  blob: Buffer;
+}
+
+const AGE_VERSION_LINE = 'age-encryption.org/v1';
+const ED25519_LABEL = 'age-encryption.org/v1/ssh-ed25519';
+const RSA_LABEL = 'age-encryption.org/v1/ssh-rsa';
+const ARMOR_BEGIN = '-----BEGIN AGE ENCRYPTED FILE-----';
+const ARMOR_END = '-----END AGE ENCRYPTED FILE-----';
+const COLUMNS_PER_LINE = 64;
+// DER prefixes that turn a raw X25519 private scalar or public key into PKCS#8 and SPKI structures
+const X25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b656e04220420', 'hex');
+const X25519_SPKI_PREFIX = Buffer.from('302a300506032b656e032100', 'hex');
+// u = 9, little-endian
+const X25519_BASE_POINT = Buffer.concat([Buffer.from([9]), Buffer.alloc(31)]);
+// The prime 2^255 - 19 of Curve25519 (target es6 rules out BigInt literals)
+const FIELD_PRIME = (BigInt(1) << BigInt(255)) - BigInt(19);
+
+/**
+ * Split an SSH wire format blob into its length-prefixed strings.
+ */
+function readSshStrings(blob: Buffer): Buffer[] {
+  const strings: Buffer[] = [];
+  for (let offset = 0; offset < blob.length; ) {
+    if (offset + 4 > blob.length) {
+      throw new Error('Truncated SSH public key');
+    }
+    const length = blob.readUInt32BE(offset);
+    if (offset + 4 + length > blob.length) {
+      throw new Error('Truncated SSH public key');
+    }
+    strings.push(blob.subarray(offset + 4, offset + 4 + length));
+    offset += 4 + length;
+  }
+  return strings;
+}
+
+/**
+ * Parse a public key or authorized_keys entry (options and comment are ignored).
+ *
+ * @returns The key, or null if the line contains no well-formed key blob
+ */
+export function parseSshPublicKey(key: string): SshPublicKey | null {
+  for (const field of key.trim().split(/\s+/)) {
+    if (!KEY_BLOB_PATTERN.test(field)) {
+      continue;
+    }
+    const blob = Buffer.from(field, 'base64');
+    try {
+      const [type] = readSshStrings(blob);
+      return {type: type.toString(), blob};
+    } catch {
+      // Not a key blob after all, e.g. a base64-looking option value
+    }
+  }
+  return null;
+}
+
+/**
+ * Check whether text can be encrypted to a key.
+ */
+export function isEncryptionKey(key: SshPublicKey): boolean {
+  return ENCRYPTION_KEY_TYPES.includes(key.type);
+}
+
+function encodeBase64(data: Buffer): string {
+  return data.toString('base64').replace(/=+$/, '');
+}
+
+function hkdf(key: Buffer, salt: Buffer, info: string, length = 32): Buffer {
+  return Buffer.from(crypto.hkdfSync('sha256', key, salt, info, length));
+}
+
+function seal(key: Buffer, nonce: Buffer, plaintext: Buffer): Buffer {
+  const cipher = crypto.createCipheriv('chacha20-poly1305', key, nonce, {authTagLength: 16});
+  return Buffer.concat([cipher.update(plaintext), cipher.final(), cipher.getAuthTag()]);
+}
+
+function x25519(scalar: Buffer, point: Buffer): Buffer {
+  return crypto.diffieHellman({
+    privateKey: crypto.createPrivateKey({key: Buffer.concat([X25519_PKCS8_PREFIX, scalar]), format: 'der', type: 'pkcs8'}),
+    publicKey: crypto.createPublicKey({key: Buffer.concat([X25519_SPKI_PREFIX, point]), format: 'der', type: 'spki'})
+  });
+}
+
+function modPow(base: bigint, exponent: bigint): bigint {
+  let result = BigInt(1);
+  for (let b = base % FIELD_PRIME, e = exponent; e > BigInt(0); e >>= BigInt(1)) {
+    if (e & BigInt(1)) {
+      result = (result * b) % FIELD_PRIME;
+    }
+    b = (b * b) % FIELD_PRIME;
+  }
+  return result;
+}
+
+/**
+ * Map an Ed25519 public key to the X25519 public key of the same secret,
+ * using the birational map u = (1 + y) / (1 - y) between the curves.
+ */
+function ed25519ToX25519(publicKey: Buffer): Buffer {
+  const bytes = Buffer.from(publicKey).reverse();
+  bytes[0] &= 0x7f; // The sign bit of x
+  const y = BigInt(`0x${bytes.toString('hex')}`);
+  const one = BigInt(1);
+  const u = ((one + y) * modPow((one - y + FIELD_PRIME) % FIELD_PRIME, FIELD_PRIME - BigInt(2))) % FIELD_PRIME;
+  return Buffer.from(u.toString(16).padStart(64, '0'), 'hex').reverse();
+}
+
+function toBase64Url(value: Buffer): string {
+  let start = 0;
+  while (start < value.length - 1 && value[start] === 0) start++;
+  return value.subarray(start).toString('base64url');
+}
+
+interface Stanza {
+  args: string[];
+  body: Buffer;
+}
+
+function wrapFileKeyForEd25519(key: SshPublicKey, tag: string, fileKey: Buffer): Stanza {
+  const [, rawPublicKey] = readSshStrings(key.blob);
+  if (!rawPublicKey || rawPublicKey.length !== 32) {
+    throw new Error('Malformed ssh-ed25519 public key');
+  }
+  const theirPublicKey = ed25519ToX25519(rawPublicKey);
+  const ephemeral = crypto.randomBytes(32);
+  const ourPublicKey = x25519(ephemeral, X25519_BASE_POINT);
+  const tweak = hkdf(Buffer.alloc(0), key.blob, ED25519_LABEL);
+  const sharedSecret = x25519(tweak, x25519(ephemeral, theirPublicKey));
+  const wrappingKey = hkdf(sharedSecret, Buffer.concat([ourPublicKey, theirPublicKey]), ED25519_LABEL);
+  return {args: ['ssh-ed25519', tag, encodeBase64(ourPublicKey)], body: seal(wrappingKey, Buffer.alloc(12), fileKey)};
+}
+
+function wrapFileKeyForRsa(key: SshPublicKey, tag: string, fileKey: Buffer): Stanza {
+  const [, exponent, modulus] = readSshStrings(key.blob);
+  if (!exponent || !modulus) {
+    throw new Error('Malformed ssh-rsa public key');
+  }
+  const publicKey = crypto.createPublicKey({key: {kty: 'RSA', e: toBase64Url(exponent), n: toBase64Url(modulus)}, format: 'jwk'});
+  const body = crypto.publicEncrypt({key: publicKey, padding: crypto.constants.RSA_PKCS1_OAEP_PADDING, oaepHash: 'sha256', oaepLabel: Buffer.from(RSA_LABEL)}, fileKey);
+  return {args: ['ssh-rsa', tag], body};
+}
+
+function wrapFileKey(key: SshPublicKey, fileKey: Buffer): Stanza {
+  // age identifies the recipient of a stanza by the first four bytes of the key's SHA-256
+  const tag = encodeBase64(crypto.createHash('sha256').update(key.blob).digest().subarray(0, 4));
+  switch (key.type) {
+    case 'ssh-ed25519':
+      return wrapFileKeyForEd25519(key, tag, fileKey);
+    case 'ssh-rsa':
+      return wrapFileKeyForRsa(key, tag, fileKey);
+    default:
+      throw new Error(`Cannot encrypt to ${key.type} keys (only to ${ENCRYPTION_KEY_TYPES.join(', ')} keys)`);
+  }
+}
+
+/**
+ * Split base64 into lines of at most 64 columns.
+ *
+ * @param terminate - End with a line shorter than 64 columns, even if that line is empty, as age requires for stanza bodies
+ */
+function wrapLines(text: string, terminate: boolean): string[] {
+  const lines: string[] = [];
+  for (let start = 0; terminate ? start <= text.length : start < text.length; start += COLUMNS_PER_LINE) {
+    lines.push(text.slice(start, start + COLUMNS_PER_LINE));
+  }
+  return lines;
+}
+
+/**
+ * Encrypt text so that the owner of any of the keys can decrypt it with age.
+ *
+ * @returns The ASCII-armored age file
+ * @throws Error if there are no keys, or a key is not an ssh-ed25519 or ssh-rsa key
+ */
+export function encryptToSshKeys(plaintext: string, keys: SshPublicKey[]): string {
+  if (keys.length === 0) {
+    throw new Error('Cannot encrypt without at least one SSH public key');
+  }
+
+  const fileKey = crypto.randomBytes(16);
+  const stanzas = keys.map(key => wrapFileKey(key, fileKey));
+  const header = [AGE_VERSION_LINE, ...stanzas.flatMap(stanza => [`-> ${stanza.args.join(' ')}`, ...wrapLines(encodeBase64(stanza.body), true)]), '---'].join('\n');
+  const mac = crypto
+    .createHmac('sha256', hkdf(fileKey, Buffer.alloc(0), 'header'))
+    .update(header)
+    .digest();
+
+  // The payload is a single STREAM chunk: a 64 KiB chunk would be far more than the texts encrypted here
+  const nonce = crypto.randomBytes(16);
+  const lastChunkNonce = Buffer.alloc(12);
+  lastChunkNonce[11] = 1;
+  const payload = seal(hkdf(fileKey, nonce, 'payload'), lastChunkNonce, Buffer.from(plaintext));
+
+  const file = Buffer.concat([Buffer.from(`${header} ${encodeBase64(mac)}\n`), nonce, payload]);
+  return [ARMOR_BEGIN, ...wrapLines(file.toString('base64'), false), ARMOR_END].join('\n');
+}
@@ -8,7 +8,10 @@ jest.mock('child_process', () => ({
 }));
 
 import {spawn} from 'child_process';
-import {execShellCommand} from './helpers';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {execShellCommand, sha256File} from './helpers';
 
 const mockSpawn = spawn as jest.MockedFunction<typeof spawn>;
 
@@ -108,3 +111,20 @@ describe('execShellCommand', () => {
     await expect(execShellCommand(command)).rejects.toThrow('Process error: Process spawn failed');
   });
 });
+
+describe('sha256File', () => {
+  it('should hash the file contents', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sha256-'));
+    try {
+      const filePath = path.join(dir, 'upterm.tar.gz');
+      fs.writeFileSync(filePath, 'hello\n');
+      await expect(sha256File(filePath)).resolves.toBe('5891b5b522d5df086d0ff0b110fbd9d21bb4fc7163af34d08286a2e846f6be03');
+    } finally {
+      fs.rmSync(dir, {recursive: true, force: true});
+    }
+  });
+
+  it('should reject for missing files', async () => {
+    await expect(sha256File(path.join(os.tmpdir(), 'does-not-exist', 'upterm.tar.gz'))).rejects.toThrow('ENOENT');
+  });
+});
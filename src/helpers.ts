@@ -1,5 +1,7 @@
 import * as core from '@actions/core';
 import {spawn} from 'child_process';
+import crypto from 'crypto';
+import fs from 'fs';
 
 export const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
@@ -59,3 +61,19 @@ export function execShellCommand(cmd: string): Promise<string> {
     });
   });
 }
+
+/**
+ * Computes the SHA-256 digest of a file.
+ *
+ * @param filePath - The file to hash
+ * @returns Promise that resolves with the digest as lower-case hex
+ */
+export function sha256File(filePath: string): Promise<string> {
+  return new Promise<string>((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    fs.createReadStream(filePath)
+      .on('error', reject)
+      .on('data', chunk => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')));
+  });
+}
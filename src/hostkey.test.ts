@@ -0,0 +1,47 @@
+import {parseHostKeyFingerprints, parseKnownHosts, selectPinnedHostKeys} from './hostkey';
+
+const SERVER_KEY = 'ssh-ed25519 AAAAC3NzaC1lZDI1NTE5AAAAIKWvo8wE76yRp2GZSFVOLnHbjdY8keoTOIWJLHFdfJPZ';
+const SERVER_KEY_FINGERPRINT = 'SHA256:FwShjcMmBO2eC3sJxUY1pNCnGr6DLY0zIYbL5/ZYIfE';
+const OTHER_KEY = 'ssh-ed25519 AAAAC3NzaC1lZDI1NTE5AAAAIAABAgMEBQYHCAkKCwwNDg8QERITFBUWFxgZGhscHR4f';
+const OTHER_KEY_FINGERPRINT = 'SHA256:ZkAslGjFiUHdGf/WUL8rQvkib4PTvQatUV0OUQSncCA';
+
+describe('parseHostKeyFingerprints', () => {
+  it('should accept SHA256 fingerprints separated by whitespace or commas', () => {
+    expect(parseHostKeyFingerprints(`${SERVER_KEY_FINGERPRINT}, ${OTHER_KEY_FINGERPRINT}=\n`)).toEqual([SERVER_KEY_FINGERPRINT, OTHER_KEY_FINGERPRINT]);
+    expect(parseHostKeyFingerprints('')).toEqual([]);
+  });
+
+  it('should reject other fingerprint formats', () => {
+    expect(() => parseHostKeyFingerprints('MD5:16:27:ac:a5:76:28:2d:36:63:1b:56:4d:eb:df:a6:48')).toThrow(
+      'Invalid server-host-key-fingerprint "MD5:16:27:ac:a5:76:28:2d:36:63:1b:56:4d:eb:df:a6:48": expected SHA256:<base64> as printed by ssh-keygen -l'
+    );
+  });
+});
+
+describe('parseKnownHosts', () => {
+  it('should accept plain and @cert-authority entries and skip comments', () => {
+    const input = `# upterm server\n[upterm.example.com]:2222 ${SERVER_KEY}\n\n@cert-authority *.example.com ${OTHER_KEY}\n`;
+    expect(parseKnownHosts(input)).toEqual([`[upterm.example.com]:2222 ${SERVER_KEY}`, `@cert-authority *.example.com ${OTHER_KEY}`]);
+  });
+
+  it('should reject entries without a key', () => {
+    expect(() => parseKnownHosts(SERVER_KEY)).toThrow('Invalid server-known-hosts entry');
+    expect(() => parseKnownHosts('upterm.example.com ssh-ed25519')).toThrow('Invalid server-known-hosts entry');
+  });
+});
+
+describe('selectPinnedHostKeys', () => {
+  it('should keep the keys with pinned fingerprints', () => {
+    const output = `# upterm.example.com:22 SSH-2.0-Go\nupterm.example.com ${SERVER_KEY}\nupterm.example.com ${OTHER_KEY}\n`;
+
+    expect(selectPinnedHostKeys(output, [SERVER_KEY_FINGERPRINT])).toEqual({
+      knownHosts: [`upterm.example.com ${SERVER_KEY}`],
+      offered: [SERVER_KEY_FINGERPRINT, OTHER_KEY_FINGERPRINT]
+    });
+  });
+
+  it('should report what the server offered when nothing matches', () => {
+    expect(selectPinnedHostKeys(`upterm.example.com ${OTHER_KEY}`, [SERVER_KEY_FINGERPRINT])).toEqual({knownHosts: [], offered: [OTHER_KEY_FINGERPRINT]});
+    expect(selectPinnedHostKeys('', [SERVER_KEY_FINGERPRINT])).toEqual({knownHosts: [], offered: []});
+  });
+});
@@ -0,0 +1,60 @@
+import {KEY_BLOB_PATTERN, getKeyFingerprint} from './access';
+
+const FINGERPRINT_PATTERN = /^SHA256:[A-Za-z0-9+/]{43}$/;
+
+/**
+ * Parse the server-host-key-fingerprint input: SHA256 fingerprints as printed
+ * by `ssh-keygen -l`, separated by whitespace or commas.
+ *
+ * @throws Error if an entry is not a SHA256 fingerprint
+ */
+export function parseHostKeyFingerprints(input: string): string[] {
+  const fingerprints = input.split(/[\s,]+/).filter(Boolean);
+  for (const fingerprint of fingerprints) {
+    if (!FINGERPRINT_PATTERN.test(fingerprint.replace(/=+$/, ''))) {
+      throw new Error(`Invalid server-host-key-fingerprint "${fingerprint}": expected SHA256:<base64> as printed by ssh-keygen -l`);
+    }
+  }
+  return fingerprints.map(fingerprint => fingerprint.replace(/=+$/, ''));
+}
+
+/**
+ * Parse the server-known-hosts input, skipping blank lines and comments.
+ *
+ * @throws Error if a line is not a known_hosts entry
+ */
+export function parseKnownHosts(input: string): string[] {
+  const lines = input
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'));
+  for (const line of lines) {
+    const fields = line.split(/\s+/);
+    const keyFields = fields[0].startsWith('@') ? fields.slice(2) : fields.slice(1);
+    if (keyFields.length < 2 || !KEY_BLOB_PATTERN.test(keyFields[1])) {
+      throw new Error(`Invalid server-known-hosts entry (expected "[@cert-authority] <host patterns> <key-type> <base64-key>"): ${line.slice(0, 40)}`);
+    }
+  }
+  return lines;
+}
+
+/**
+ * Pick the host keys from `ssh-keyscan` output whose fingerprints are pinned.
+ *
+ * @returns The matching known_hosts lines, and the fingerprints of all keys the server offered
+ */
+export function selectPinnedHostKeys(keyscanOutput: string, fingerprints: string[]): {knownHosts: string[]; offered: string[]} {
+  const knownHosts: string[] = [];
+  const offered: string[] = [];
+  for (const line of keyscanOutput.split(/\r?\n/).map(candidate => candidate.trim())) {
+    const fingerprint = line && !line.startsWith('#') ? getKeyFingerprint(line) : '';
+    if (!fingerprint) {
+      continue;
+    }
+    offered.push(fingerprint);
+    if (fingerprints.includes(fingerprint)) {
+      knownHosts.push(line);
+    }
+  }
+  return {knownHosts, offered};
+}
@@ -0,0 +1,50 @@
+const PRIVATE_KEY_PATTERN = /-----BEGIN ([A-Z0-9]+ )?PRIVATE KEY-----\n[\s\S]*?\n-----END \1?PRIVATE KEY-----/g;
+
+/**
+ * Key types `ssh-keygen -t` can generate for the upterm host identity.
+ */
+export const HOST_KEY_TYPES = ['ed25519', 'rsa', 'ecdsa'];
+
+/**
+ * Key types generated when host-key-type is not set.
+ */
+export const DEFAULT_HOST_KEY_TYPES = ['rsa', 'ed25519'];
+
+/**
+ * Parse the host-private-key input: one or more OpenSSH or PEM private keys.
+ *
+ * @returns Each key, ending with a newline as ssh expects
+ * @throws Error if the input contains anything other than private keys
+ */
+export function parsePrivateKeys(input: string): string[] {
+  const normalized = input.replace(/\r\n/g, '\n').trim();
+  if (!normalized) {
+    return [];
+  }
+
+  const keys = normalized.match(PRIVATE_KEY_PATTERN) || [];
+  if (keys.length === 0 || normalized.replace(PRIVATE_KEY_PATTERN, '').trim()) {
+    // Never echo the input, it is usually a secret
+    throw new Error('host-private-key must only contain private keys, each starting with "-----BEGIN ... PRIVATE KEY-----"');
+  }
+  return keys.map(key => `${key}\n`);
+}
+
+/**
+ * Parse the host-key-type input: key types separated by whitespace or commas.
+ *
+ * @returns The key types, or the default ones if the input is empty
+ * @throws Error if a key type cannot be generated
+ */
+export function parseHostKeyTypes(input: string): string[] {
+  const types = input
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map(type => type.toLowerCase());
+  for (const type of types) {
+    if (!HOST_KEY_TYPES.includes(type)) {
+      throw new Error(`Invalid host-key-type "${type}": expected one of ${HOST_KEY_TYPES.join(', ')}`);
+    }
+  }
+  return types.length > 0 ? [...new Set(types)] : DEFAULT_HOST_KEY_TYPES;
+}
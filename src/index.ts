@@ -1,21 +1,73 @@
 import os from 'os';
 import fs from 'fs';
+import crypto from 'crypto';
 import path from 'path';
 import * as core from '@actions/core';
 import * as github from '@actions/github';
 import * as tc from '@actions/tool-cache';
-import {execShellCommand, sleep} from './helpers';
+import {AllowedUsers, getCodeOwnersFile, getCollaboratorsWithRole, getKeyFingerprint, getTeamMembers, getUserPublicKeys, grantAccess, parseCodeOwners, parseRepositoryRole, parseTeamReferences} from './access';
+import {SessionComment, upsertPullRequestComment} from './comment';
+import {isSha256Digest, parseChecksums} from './checksums';
+import {SshPublicKey, encryptToSshKeys, isEncryptionKey, parseSshPublicKey} from './encryption';
+import {execShellCommand, sha256File, sleep} from './helpers';
+import {parseHostKeyFingerprints, parseKnownHosts, selectPinnedHostKeys} from './hostkey';
+import {parseHostKeyTypes, parsePrivateKeys} from './identity';
+import {getCurrentJobName, getFailedSteps} from './job';
+import {WebhookEvent, WebhookOptions, WebhookPayload, renderWebhookBody, sendWebhook} from './notify';
+import {SessionOutcome, describeSessionOutcome, parseContinueFile} from './outcome';
+import {UPTERM_REPOSITORY, UPTERM_REPOSITORY_API_URL, listReleaseTags, resolveLatestRelease, resolveVersionRange} from './releases';
+import {UptermServer, parseUptermServers} from './server';
+import {buildRawRecordingHeader, buildRecorderCommand, convertToAsciicast} from './recording';
+import {SessionInfo, SessionTimeline, closeSessionTimeline, createSessionTimeline, describeSessionEvent, formatSessionStatus, getSessionSecrets, parseSessionInfo, updateSessionTimeline} from './session';
+import {LINUX_PACKAGE_MANAGERS, buildTmuxInstallScript} from './tmux';
+import {UptermVersion, parseUptermVersion, satisfiesVersionSpec} from './version';
 
 // Constants
 const UPTERM_RELEASE_BASE_URL = 'https://github.com/owenthereal/upterm/releases';
+// Published with every upterm release, listing the SHA-256 of each archive
+const UPTERM_CHECKSUMS_FILE = 'checksums.txt';
+const UPTERM_TOOL_NAME = 'upterm';
 const UPTERM_SOCKET_POLL_INTERVAL = 1000;
 const UPTERM_READY_MAX_RETRIES = 10;
+// The default upterm-server, which may be used without pinning its host key
+const DEFAULT_UPTERM_SERVER = 'ssh://uptermd.upterm.dev:22';
+// What upterm logs when it cannot reach or log in to the upterm server
+const UPTERM_CONNECTION_ERROR_PATTERN = /error connecting|connection refused|no such host|i\/o timeout|network is unreachable|handshake failed|unable to authenticate|bad handshake/i;
 const SESSION_STATUS_POLL_INTERVAL = 5000;
-const SUPPORTED_UPTERM_ARCHITECTURES = ['amd64', 'arm64'] as const;
+const MASK_SSH_COMMAND_VALUES = ['auto', 'true', 'false'];
+const SSH_COMMAND_DECRYPT_HINT = "The SSH command is encrypted to the allowed users' SSH keys. Decrypt it with: age --decrypt -i ~/.ssh/id_ed25519 (paste the block, then press Ctrl-D)";
+// Architectures upterm publishes release assets for, as Node's process.arch
+// mapped to the architecture in the asset name. The Linux binaries are
+// statically linked Go builds, so the same asset works with glibc and musl
+// (e.g. Alpine). Node reports ppc64le as ppc64, and all 32-bit ARM as arm.
+const UPTERM_RELEASE_ARCHITECTURES: Record<UptermPlatform, Record<string, string>> = {
+  linux: {x64: 'amd64', arm64: 'arm64', arm: 'arm', ppc64: 'ppc64le', s390x: 's390x'},
+  darwin: {x64: 'amd64', arm64: 'arm64'},
+  win32: {x64: 'amd64', arm64: 'arm64'}
+};
+const UPTERM_RELEASE_PLATFORMS: Record<UptermPlatform, string> = {
+  linux: 'linux',
+  darwin: 'darwin',
+  win32: 'windows'
+};
 const TMUX_DIMENSIONS = {width: 132, height: 43};
 // Delay (in milliseconds) to allow upterm sufficient time to initialize before proceeding.
 // This 2-second delay helps ensure the upterm server is fully started and ready for connections.
 const UPTERM_INIT_DELAY = 2000;
+// How often (in seconds) the idle watcher checks tmux client activity
+const IDLE_CHECK_INTERVAL_SECONDS = 30;
+// Minutes before max-session-minutes is reached at which connected users are warned
+const MAX_SESSION_WARNING_MINUTES = [10, 5, 1];
+// How often (every 0.5s) to check for the inner tmux session before recording it
+const RECORDING_ATTACH_RETRIES = 20;
+// When to start a session: right away, or from the POST action if the job failed
+const SESSION_MODES = ['always', 'on-failure'];
+
+// Why a session ended, as reported to notify-webhook-url
+type SessionEndReason = 'continue' | 'wait-timeout' | 'idle-timeout' | 'max-session-minutes' | 'upterm-exited' | 'connection-lost';
+
+// Matches the key type and base64 blob of an authorized_keys entry, after any options
+const AUTHORIZED_KEY_PATTERN = /(?:^|\s)(?:ssh-(?:rsa|dss|ed25519)|ecdsa-sha2-nistp(?:256|384|521)|sk-(?:ssh-ed25519|ecdsa-sha2-nistp256)@openssh\.com)\s+[A-Za-z0-9+/]+={0,3}(?:\s|$)/;
 
 // Continue file paths - users can touch either location to exit the session
 // /continue may require sudo, but $GITHUB_WORKSPACE/continue never does
@@ -35,8 +87,18 @@ interface UptermDirs {
   runtime: string;
   state: string;
   config: string;
+  bin: string;
+  ssh: string;
   logs: {uptermCommand: string; tmuxError: string};
   timeoutFlag: string;
+  idleFlag: string;
+  idleWatcherPid: string;
+  maxDurationFlag: string;
+  maxDurationWatcherPid: string;
+  authorizedKeys: string;
+  knownHosts: string;
+  auditLog: string;
+  recording: {raw: string; cast: string};
 }
 
 // Cache for getUptermDirs() to avoid repeated path computation
@@ -54,11 +116,24 @@ function getUptermDirs(): UptermDirs {
     runtime: path.join(base, 'runtime'), // XDG_RUNTIME_DIR - for sockets
     state, // XDG_STATE_HOME - for upterm's internal logs
     config: path.join(base, 'config'), // XDG_CONFIG_HOME - for config files
+    bin: path.join(base, 'bin'), // upterm-path binaries that are not named upterm
+    ssh: path.join(base, 'ssh'), // Private keys upterm uses to authenticate to the upterm server
+    authorizedKeys: path.join(base, 'config', 'authorized_keys'), // Keys from the authorized-keys inputs
+    knownHosts: path.join(base, 'config', 'known_hosts'), // Pinned host keys of the upterm server
     logs: {
       uptermCommand: path.join(state, 'upterm-command.log'), // Our action's log of upterm stdout/stderr
       tmuxError: path.join(state, 'tmux-error.log') // Our action's log of tmux stderr
     },
-    timeoutFlag: path.join(base, 'timeout-flag') // Flag file for timeout detection
+    timeoutFlag: path.join(base, 'timeout-flag'), // Flag file for timeout detection
+    idleFlag: path.join(base, 'idle-flag'), // Flag file for idle timeout detection
+    idleWatcherPid: path.join(base, 'idle-watcher.pid'), // PID of the idle timeout watcher
+    maxDurationFlag: path.join(base, 'max-duration-flag'), // Flag file for maximum session duration detection
+    maxDurationWatcherPid: path.join(base, 'max-duration-watcher.pid'), // PID of the maximum session duration watcher
+    auditLog: path.join(base, 'session-audit.json'), // Client connect/disconnect timeline
+    recording: {
+      raw: path.join(state, 'session-recording.raw'), // Timed output captured by tmux pipe-pane
+      cast: path.join(base, 'session.cast') // Finalised asciicast v2 recording
+    }
   };
   return uptermDirsCache;
 }
@@ -150,59 +225,198 @@ function getTmuxErrorLogPath(): string {
   return toMsys2Path(getUptermDirs().logs.tmuxError);
 }
 
-type UptermArchitecture = (typeof SUPPORTED_UPTERM_ARCHITECTURES)[number];
+type UptermPlatform = 'linux' | 'darwin' | 'win32';
 
-export function getUptermArchitecture(nodeArch: string): UptermArchitecture | null {
-  switch (nodeArch) {
-    case 'x64':
-      return 'amd64';
-    case 'arm64':
-      return 'arm64';
-    default:
-      return null;
-  }
+export function getUptermArchitecture(platform: UptermPlatform, nodeArch: string): string | null {
+  return UPTERM_RELEASE_ARCHITECTURES[platform][nodeArch] ?? null;
 }
 
-function validateArchitecture(arch: string): UptermArchitecture {
-  const uptermArch = getUptermArchitecture(arch);
+function validateArchitecture(platform: UptermPlatform, arch: string): string {
+  const uptermArch = getUptermArchitecture(platform, arch);
   if (!uptermArch) {
-    throw new Error(`Unsupported architecture for upterm: ${arch}. Only x64 and arm64 are supported.`);
+    const supported = Object.keys(UPTERM_RELEASE_ARCHITECTURES[platform]).join(', ');
+    throw new Error(`Unsupported architecture for upterm on ${platform}: ${arch}. Supported architectures: ${supported}.`);
   }
   return uptermArch;
 }
 
-export function getUptermDownloadUrl(platform: 'linux' | 'darwin' | 'win32', nodeArch: string): string {
-  const uptermArch = validateArchitecture(nodeArch);
-  const artifactPlatformMap: Record<string, string> = {
-    darwin: 'darwin',
-    linux: 'linux',
-    win32: 'windows'
-  };
-  const artifactPlatform = artifactPlatformMap[platform];
-  const filename = `upterm_${artifactPlatform}_${uptermArch}.tar.gz`;
+/**
+ * Name of the upterm release asset for a platform and architecture, e.g.
+ * `upterm_linux_ppc64le.tar.gz`.
+ *
+ * @throws Error if upterm publishes no asset for the combination
+ */
+export function getUptermAssetName(platform: UptermPlatform, nodeArch: string): string {
+  return `upterm_${UPTERM_RELEASE_PLATFORMS[platform]}_${validateArchitecture(platform, nodeArch)}.tar.gz`;
+}
 
-  const versionInput = core.getInput('upterm-version');
-  const version = versionInput?.trim();
+export function getUptermDownloadUrl(platform: UptermPlatform, nodeArch: string, version = core.getInput('upterm-version').trim()): string {
+  const filename = getUptermAssetName(platform, nodeArch);
   const versionSegment = version ? `download/${version}` : 'latest/download';
-  const url = `${UPTERM_RELEASE_BASE_URL}/${versionSegment}/${filename}`;
+  const url = `${getUptermReleaseBaseUrl()}/${versionSegment}/${filename}`;
 
   core.debug(`Upterm download URL resolved to ${url}`);
   return url;
 }
 
-function validateInputs(): void {
-  const waitTimeout = core.getInput('wait-timeout-minutes');
-  if (waitTimeout) {
-    const parsedTimeout = parseInt(waitTimeout, 10);
-    if (isNaN(parsedTimeout) || parsedTimeout < 0 || parsedTimeout > 1440 || !Number.isInteger(parsedTimeout)) {
-      throw new Error('wait-timeout-minutes must be a valid positive integer not exceeding 1440 (24 hours)');
+/**
+ * Where upterm releases are downloaded from: `upterm-release-base-url` (e.g.
+ * an internal mirror) or the upterm GitHub releases.
+ */
+function getUptermReleaseBaseUrl(): string {
+  return core.getInput('upterm-release-base-url').trim().replace(/\/+$/, '') || UPTERM_RELEASE_BASE_URL;
+}
+
+/**
+ * The upterm version to install: `upterm-version` if set, otherwise the tag of
+ * the latest release, so that the tool cache is keyed by a concrete version.
+ *
+ * @returns The version, or null if the latest release cannot be resolved
+ */
+async function resolveUptermVersion(): Promise<string | null> {
+  const version = core.getInput('upterm-version').trim();
+  if (version && tc.isExplicitVersion(version)) {
+    return version;
+  }
+  if (version) {
+    return resolveUptermVersionRange(version);
+  }
+  try {
+    const latest = await resolveLatestRelease(getUptermReleaseBaseUrl());
+    core.info(`Resolved the latest upterm release to ${latest}`);
+    return latest;
+  } catch (error) {
+    core.warning(`Failed to resolve the latest upterm release, downloading it without the tool cache: ${error}`);
+    return null;
+  }
+}
+
+/**
+ * Resolve a semver range in `upterm-version`, such as `^0.20`, to the newest
+ * matching upterm release.
+ *
+ * @throws Error if the releases cannot be listed or none matches
+ */
+async function resolveUptermVersionRange(range: string): Promise<string> {
+  let tags: string[];
+  try {
+    // Not getOctokit()'s default GITHUB_API_URL, which is the Enterprise Server's API there
+    tags = await listReleaseTags(github.getOctokit(core.getInput('github-token'), {baseUrl: UPTERM_REPOSITORY_API_URL}), UPTERM_REPOSITORY);
+  } catch (error) {
+    throw new Error(`Failed to list the upterm releases to resolve upterm-version ${range}: ${error}`);
+  }
+  const tag = resolveVersionRange(tags, range);
+  if (!tag) {
+    throw new Error(`No upterm release matches upterm-version ${range} (newest releases: ${tags.slice(0, 5).join(', ')})`);
+  }
+  core.info(`Resolved upterm-version ${range} to ${tag}`);
+  return tag;
+}
+
+/**
+ * Download an upterm release archive and verify its SHA-256 digest before it
+ * is extracted: against `upterm-sha256` if set, otherwise against the
+ * checksums file published with the release.
+ *
+ * @returns Path of the downloaded archive
+ * @throws Error if the digest cannot be verified or does not match
+ */
+async function downloadUptermArchive(archiveUrl: string): Promise<string> {
+  const archive = await tc.downloadTool(archiveUrl);
+  const filename = archiveUrl.substring(archiveUrl.lastIndexOf('/') + 1);
+  const actualDigest = await sha256File(archive);
+
+  let expectedDigest = core.getInput('upterm-sha256').trim().toLowerCase();
+  let source = 'upterm-sha256';
+  if (!expectedDigest) {
+    // The checksums file is published next to the archives of each release
+    source = archiveUrl.substring(0, archiveUrl.length - filename.length) + UPTERM_CHECKSUMS_FILE;
+    const checksums = parseChecksums(fs.readFileSync(await tc.downloadTool(source), 'utf8'));
+    expectedDigest = checksums.get(filename) ?? '';
+    if (!expectedDigest) {
+      throw new Error(`${source} does not list a checksum for ${filename}; refusing to install an unverified upterm binary`);
+    }
+  }
+
+  if (actualDigest !== expectedDigest) {
+    throw new Error(`Checksum mismatch for ${filename}: expected SHA-256 ${expectedDigest} (from ${source}), but the download has ${actualDigest}. ` + 'The download may be corrupted or tampered with; refusing to install it');
+  }
+  core.info(`Verified SHA-256 of ${filename} against ${source}`);
+  return archive;
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const {protocol} = new URL(value);
+    return protocol === 'https:' || protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+function validateMinutesInput(name: string): void {
+  const value = core.getInput(name);
+  if (value) {
+    const parsed = parseInt(value, 10);
+    if (isNaN(parsed) || parsed < 0 || parsed > 1440 || !Number.isInteger(parsed)) {
+      throw new Error(`${name} must be a valid positive integer not exceeding 1440 (24 hours)`);
     }
   }
+}
 
-  const uptermServer = core.getInput('upterm-server');
-  if (!uptermServer) {
+/**
+ * The upterm-server input: the servers to try in order, each normalised to
+ * protocol://host:port. validateInputs() calls this before anything is
+ * installed, so later callers can rely on it not throwing.
+ */
+function getUptermServers(): UptermServer[] {
+  const uptermServers = parseUptermServers(core.getInput('upterm-server'));
+  if (uptermServers.length === 0) {
     throw new Error('upterm-server is required');
   }
+  return uptermServers;
+}
+
+function validateInputs(): void {
+  validateMinutesInput('wait-timeout-minutes');
+  validateMinutesInput('idle-timeout-minutes');
+  validateMinutesInput('max-session-minutes');
+
+  const uptermSha256 = core.getInput('upterm-sha256').trim();
+  if (uptermSha256 && !isSha256Digest(uptermSha256)) {
+    throw new Error('upterm-sha256 must be a SHA-256 digest of 64 hexadecimal characters');
+  }
+
+  const releaseBaseUrl = core.getInput('upterm-release-base-url').trim();
+  if (releaseBaseUrl && !isHttpUrl(releaseBaseUrl)) {
+    throw new Error('upterm-release-base-url must be an http:// or https:// URL');
+  }
+
+  getAuthorizedKeys();
+  parseTeamReferences(core.getInput('limit-access-to-teams'));
+  parseRepositoryRole(core.getInput('limit-access-to-role'));
+
+  const uptermServers = getUptermServers();
+
+  validateWebhookInputs();
+  validateServerHostKeyInputs(uptermServers);
+  validateHostIdentityInputs();
+
+  const maskSshCommand = core.getInput('mask-ssh-command');
+  if (maskSshCommand && !MASK_SSH_COMMAND_VALUES.includes(maskSshCommand)) {
+    throw new Error(`mask-ssh-command must be one of: ${MASK_SSH_COMMAND_VALUES.join(', ')}`);
+  }
+
+  const mode = core.getInput('mode');
+  if (mode && !SESSION_MODES.includes(mode)) {
+    throw new Error(`mode must be one of: ${SESSION_MODES.join(', ')}`);
+  }
+
+  if (isRecordingEnabled() && endsInPostStep()) {
+    core.warning(
+      `record-session: in detached mode and with mode on-failure, the session ends in the post step after every other step, so no step can upload the recording and the recording-path output is not set. It is only kept on the runner, at ${getUptermDirs().recording.cast}`
+    );
+  }
 }
 
 export async function run() {
@@ -215,12 +429,23 @@ export async function run() {
 
     validateInputs();
 
-    await installDependencies();
-    await setupSSH();
-    await startUptermSession();
+    if (core.getInput('mode') === 'on-failure') {
+      // Defer everything to the POST action, which only starts a session if the job failed
+      core.saveState('isPost', 'true');
+      core.saveState('mode', 'on-failure');
+      core.info('mode is on-failure - a debugging session will be started at the end of the job if an earlier step fails');
+      return;
+    }
+
+    // Resolve allowed users before installing anything so that access errors fail fast
+    const allowedUsers = await getAllowedUsers();
 
-    // Mark that the main action has run (for POST action detection)
+    await installDependencies();
+    // Mark that the main action has run (for POST action detection) before any key
+    // is written, so that the POST action shreds the keys even if the session fails
     core.saveState('isPost', 'true');
+    await setupSSH();
+    await startUptermSession(allowedUsers);
 
     const detached = core.getInput('detached');
     if (detached === 'true') {
@@ -242,43 +467,18 @@ async function installDependencies(): Promise<void> {
   core.debug('Installing dependencies');
   const platformHandlers = {
     linux: async () => {
-      const archiveUrl = getUptermDownloadUrl('linux', process.arch);
-      const archive = await tc.downloadTool(archiveUrl);
-      const extractDir = await tc.extractTar(archive);
-      const uptermPath = path.join(extractDir, 'upterm');
-
-      if (!fs.existsSync(uptermPath)) {
-        throw new Error(`Downloaded upterm archive does not contain binary at expected path: ${uptermPath}`);
-      }
-
-      core.addPath(extractDir);
-      await execShellCommand('if ! command -v tmux &>/dev/null; then sudo apt-get update && sudo apt-get -y install tmux; fi');
+      await installUpterm('linux');
+      await installTmuxOnLinux();
     },
     win32: async () => {
-      const archiveUrl = getUptermDownloadUrl('win32', process.arch);
-      const archive = await tc.downloadTool(archiveUrl);
-      const extractDir = await tc.extractTar(archive);
-      const uptermExePath = path.join(extractDir, 'upterm.exe');
-
-      if (!fs.existsSync(uptermExePath)) {
-        throw new Error(`Downloaded upterm archive does not contain upterm.exe at expected path: ${uptermExePath}`);
-      }
-
-      core.addPath(extractDir);
+      await installUpterm('win32');
       await execShellCommand('if ! command -v tmux &>/dev/null; then pacman -S --noconfirm tmux; fi');
     },
     darwin: async () => {
-      const archiveUrl = getUptermDownloadUrl('darwin', process.arch);
-      const archive = await tc.downloadTool(archiveUrl);
-      const extractDir = await tc.extractTar(archive);
-      const uptermPath = path.join(extractDir, 'upterm');
-
-      if (!fs.existsSync(uptermPath)) {
-        throw new Error(`Downloaded upterm archive does not contain binary at expected path: ${uptermPath}`);
+      await installUpterm('darwin');
+      if (!(await findCommand('tmux'))) {
+        await execShellCommand('brew install tmux');
       }
-
-      core.addPath(extractDir);
-      await execShellCommand('brew install tmux');
     }
   };
 
@@ -292,7 +492,7 @@ async function installDependencies(): Promise<void> {
     core.debug('Installed dependencies successfully');
   } catch (error) {
     const platformGuidance: Record<string, string> = {
-      linux: 'Ensure apt-get is available and you have sudo permissions',
+      linux: 'Install tmux on the runner, or run the job as root or with passwordless sudo and one of these package managers: ' + LINUX_PACKAGE_MANAGERS.map(manager => manager.command).join(', '),
       darwin: 'Ensure Homebrew is installed: https://brew.sh',
       win32: 'Ensure MSYS2 is properly configured with pacman package manager'
     };
@@ -301,75 +501,540 @@ async function installDependencies(): Promise<void> {
   }
 }
 
-async function generateSSHKeys(sshPath: string): Promise<void> {
-  const idRsaPath = path.join(sshPath, 'id_rsa');
-  const idEd25519Path = path.join(sshPath, 'id_ed25519');
+/**
+ * Look a command up on the PATH.
+ *
+ * @returns Path of the command, or an empty string if it is not found
+ */
+async function findCommand(name: string): Promise<string> {
+  return (await execShellCommand(`command -v ${name} || true`)).trim();
+}
 
-  if (fs.existsSync(idRsaPath)) {
-    core.debug('SSH key already exists');
+/**
+ * Install tmux with the system package manager if it is missing.
+ *
+ * @throws Error if tmux is still missing, e.g. on rootless runners
+ */
+async function installTmuxOnLinux(): Promise<void> {
+  if (await findCommand('tmux')) {
+    core.debug('tmux is already installed');
     return;
   }
 
-  core.debug('Generating SSH keys');
-  fs.mkdirSync(sshPath, {recursive: true});
+  try {
+    await execShellCommand(buildTmuxInstallScript());
+  } catch (error) {
+    throw new Error(`tmux is not installed and could not be installed with a package manager: ${error}\nInstall tmux in an earlier step, or use a runner image that includes it.`);
+  }
+  if (!(await findCommand('tmux'))) {
+    throw new Error('tmux is not installed and the package manager did not put it on the PATH. Install tmux in an earlier step, or use a runner image that includes it.');
+  }
+}
+
+type UptermSource = 'upterm-path' | 'path' | 'tool-cache' | 'download';
 
-  // Use absolute paths instead of ~ to avoid MSYS2 home directory mismatch on Windows
-  const rsaKeyPath = toShellPath(idRsaPath);
-  const ed25519KeyPath = toShellPath(idEd25519Path);
+const UPTERM_SOURCE_LABELS: Record<UptermSource, string> = {
+  'upterm-path': 'upterm-path',
+  path: 'the PATH',
+  'tool-cache': 'the tool cache',
+  download: 'the release download'
+};
+
+/**
+ * Put the upterm binary on the PATH and check that it runs.
+ *
+ * The binary comes from `upterm-path` if set, from the PATH if
+ * `use-upterm-from-path` is enabled and upterm is found there, and otherwise
+ * from the tool cache or a release download.
+ */
+async function installUpterm(platform: UptermPlatform): Promise<void> {
+  const binaryName = platform === 'win32' ? 'upterm.exe' : 'upterm';
+  const uptermPath = core.getInput('upterm-path').trim();
+
+  let installed: {source: UptermSource; location: string; version?: string} | null = null;
+  if (uptermPath) {
+    installed = {source: 'upterm-path', location: await installUptermFromFile(uptermPath, binaryName)};
+  } else if (core.getInput('use-upterm-from-path') === 'true') {
+    const location = await findCommand('upterm');
+    if (location) {
+      installed = {source: 'path', location};
+    } else {
+      core.info('use-upterm-from-path is set, but upterm is not on the PATH - downloading it');
+    }
+  }
+  if (!installed) {
+    installed = await downloadUpterm(platform, binaryName);
+  } else {
+    core.setOutput('upterm-cache-hit', 'false');
+  }
+  core.setOutput('upterm-source', installed.source);
+
+  const label = UPTERM_SOURCE_LABELS[installed.source];
+  const installedUptermVersion = await checkUptermVersion(label);
+  const version = installedUptermVersion ? `v${installedUptermVersion.version}` : installed.version;
+  core.setOutput('upterm-version', version ?? 'unknown');
+  core.info(`Using upterm ${version ?? 'of unknown version'} from ${label}: ${installed.location}`);
+}
+
+/**
+ * Put the upterm binary or release archive that `upterm-path` points to on
+ * the PATH.
+ *
+ * @returns Directory that contains the binary
+ */
+async function installUptermFromFile(uptermPath: string, binaryName: string): Promise<string> {
+  if (!fs.existsSync(uptermPath)) {
+    throw new Error(`upterm-path ${uptermPath} does not exist`);
+  }
+
+  let binDir: string;
+  if (/\.(tar\.gz|tgz)$/.test(uptermPath)) {
+    binDir = await tc.extractTar(uptermPath);
+    if (!fs.existsSync(path.join(binDir, binaryName))) {
+      throw new Error(`upterm-path archive ${uptermPath} does not contain ${binaryName}`);
+    }
+  } else if (path.basename(uptermPath) === binaryName) {
+    binDir = path.dirname(uptermPath);
+  } else {
+    // The session is started as `upterm`, so the binary needs that name
+    binDir = getUptermDirs().bin;
+    fs.mkdirSync(binDir, {recursive: true});
+    fs.copyFileSync(uptermPath, path.join(binDir, binaryName));
+    fs.chmodSync(path.join(binDir, binaryName), 0o755);
+  }
+  core.addPath(binDir);
+  return binDir;
+}
+
+/**
+ * Download upterm, reusing the copy in the runner's tool cache if this
+ * version was installed before, e.g. by an earlier job on a self-hosted
+ * runner.
+ */
+async function downloadUpterm(platform: UptermPlatform, binaryName: string): Promise<{source: UptermSource; location: string; version?: string}> {
+  const uptermArch = validateArchitecture(platform, process.arch);
+  const version = await resolveUptermVersion();
+
+  const cachedDir = version ? tc.find(UPTERM_TOOL_NAME, version, uptermArch) : '';
+  core.setOutput('upterm-cache-hit', cachedDir ? 'true' : 'false');
+  if (version && cachedDir) {
+    core.addPath(cachedDir);
+    return {source: 'tool-cache', location: cachedDir, version};
+  }
+
+  const archiveUrl = getUptermDownloadUrl(platform, process.arch, version ?? '');
+  const archive = await downloadUptermArchive(archiveUrl);
+  const extractDir = await tc.extractTar(archive);
+  const uptermPath = path.join(extractDir, binaryName);
+
+  if (!fs.existsSync(uptermPath)) {
+    throw new Error(`Downloaded upterm archive does not contain ${binaryName} at expected path: ${uptermPath}`);
+  }
+
+  // Without a concrete version there is no meaningful cache key
+  const binDir = version ? await tc.cacheDir(extractDir, UPTERM_TOOL_NAME, version, uptermArch) : extractDir;
+  core.addPath(binDir);
+  return {source: 'download', location: binDir, version: version ?? 'latest'};
+}
 
+/**
+ * Run `upterm version` to check that the binary works on this runner and, if
+ * `upterm-version` is set, that it is that version or in that range.
+ *
+ * @returns The version the binary reports, or null if it cannot be parsed
+ * @throws Error if upterm does not run or reports a different version
+ */
+async function checkUptermVersion(label: string): Promise<UptermVersion | null> {
+  let output: string;
   try {
-    await execShellCommand(`ssh-keygen -q -t rsa -N "" -f "${rsaKeyPath}"; ssh-keygen -q -t ed25519 -N "" -f "${ed25519KeyPath}"`);
-    core.debug('Generated SSH keys successfully');
+    output = await execShellCommand('upterm version');
   } catch (error) {
-    throw new Error(`Failed to generate SSH keys: ${error}`);
+    throw new Error(`The upterm binary from ${label} does not run on this runner: ${error}`);
+  }
+
+  const reportedVersion = parseUptermVersion(output);
+  if (!reportedVersion) {
+    core.warning(`Could not determine the version of the upterm binary from ${label}; \`upterm version\` printed: ${output.trim()}`);
+    return null;
+  }
+
+  const expectedVersion = core.getInput('upterm-version').trim();
+  if (expectedVersion && !satisfiesVersionSpec(reportedVersion, expectedVersion)) {
+    throw new Error(`upterm-version is ${expectedVersion}, but the upterm binary from ${label} reports version ${reportedVersion.version}`);
   }
+  return reportedVersion;
 }
 
-function configureSSHClient(sshPath: string): void {
-  core.debug('Configuring ssh client');
-  const sshConfig = `Host *
-  StrictHostKeyChecking no
-  CheckHostIP no
-  TCPKeepAlive yes
-  ServerAliveInterval 30
-  ServerAliveCountMax 180
-  VerifyHostKeyDNS yes
-  UpdateHostKeys yes
-  AddressFamily inet
-`;
-  fs.appendFileSync(path.join(sshPath, 'config'), sshConfig);
+// Private keys upterm authenticates to the upterm server with, passed to
+// `upterm host --private-key` so that the runner's ~/.ssh is never read or written
+let sshKeyPaths: string[] = [];
+
+function validateHostIdentityInputs(): void {
+  const privateKeys = parsePrivateKeys(core.getInput('host-private-key'));
+  const keyTypes = core.getInput('host-key-type').trim();
+  parseHostKeyTypes(keyTypes);
+  if (privateKeys.length > 0 && keyTypes) {
+    throw new Error('host-key-type cannot be combined with host-private-key, since no keys are generated when keys are supplied');
+  }
+}
+
+/**
+ * Overwrite the files in a directory with random data before removing it, so
+ * that private keys cannot be recovered from the disk.
+ */
+function shredDirectory(dir: string): void {
+  if (!fs.existsSync(dir)) {
+    return;
+  }
+  for (const entry of fs.readdirSync(dir)) {
+    const filePath = path.join(dir, entry);
+    const stats = fs.statSync(filePath);
+    if (stats.isFile()) {
+      fs.writeFileSync(filePath, crypto.randomBytes(stats.size));
+    }
+  }
+  fs.rmSync(dir, {recursive: true, force: true});
 }
 
+/**
+ * Provide the SSH keys upterm connects to the upterm server with in the `ssh`
+ * directory of the upterm data directory: the keys from host-private-key, or
+ * freshly generated keys of the host-key-type types.
+ */
 async function setupSSH(): Promise<void> {
-  const sshPath = path.join(os.homedir(), '.ssh');
+  const sshPath = getUptermDirs().ssh;
+
+  // Never reuse keys left behind by a run that did not get to clean up
+  shredDirectory(sshPath);
+  fs.mkdirSync(sshPath, {recursive: true, mode: 0o700});
+
+  const privateKeys = parsePrivateKeys(core.getInput('host-private-key'));
+  if (privateKeys.length > 0) {
+    for (const key of privateKeys) {
+      // Secrets are masked already, but the input may come from elsewhere
+      key
+        .split('\n')
+        .filter(line => line && !line.startsWith('-----'))
+        .forEach(line => core.setSecret(line));
+    }
+    sshKeyPaths = privateKeys.map((key, index) => {
+      const keyPath = path.join(sshPath, `host_key_${index + 1}`);
+      fs.writeFileSync(keyPath, key, {mode: 0o600});
+      return keyPath;
+    });
+    core.info(`Using ${privateKeys.length} SSH key(s) from host-private-key to connect to the upterm server`);
+    return;
+  }
+
+  const keyTypes = parseHostKeyTypes(core.getInput('host-key-type'));
+  sshKeyPaths = keyTypes.map(type => path.join(sshPath, `id_${type}`));
+  core.debug(`Generating ${keyTypes.join(', ')} SSH keys in ${sshPath}`);
 
-  await generateSSHKeys(sshPath);
-  configureSSHClient(sshPath);
+  // Use absolute paths instead of ~ to avoid MSYS2 home directory mismatch on Windows
+  const commands = keyTypes.map((type, index) => `ssh-keygen -q -t ${type} -N "" -f ${shellEscape(toShellPath(sshKeyPaths[index]))}`);
+  try {
+    await execShellCommand(commands.join('; '));
+    core.debug('Generated SSH keys successfully');
+  } catch (error) {
+    throw new Error(`Failed to generate SSH keys: ${error}`);
+  }
 }
 
-function getAllowedUsers(): string[] {
-  const allowedUsers = core
-    .getInput('limit-access-to-users')
-    .split(/[\s\n,]+/)
-    .filter(Boolean);
+async function getAllowedUsers(): Promise<AllowedUsers> {
+  const allowedUsers: AllowedUsers = new Map();
+  grantAccess(
+    allowedUsers,
+    core
+      .getInput('limit-access-to-users')
+      .split(/[\s\n,]+/)
+      .filter(Boolean),
+    'limit-access-to-users'
+  );
 
   if (core.getInput('limit-access-to-actor') === 'true') {
     core.info(`Adding actor "${github.context.actor}" to allowed users.`);
-    allowedUsers.push(github.context.actor);
+    grantAccess(allowedUsers, [github.context.actor], 'limit-access-to-actor');
+  }
+
+  const teams = parseTeamReferences(core.getInput('limit-access-to-teams'));
+  const role = parseRepositoryRole(core.getInput('limit-access-to-role'));
+  const useCodeOwners = core.getInput('limit-access-to-codeowners') === 'true';
+  if (teams.length === 0 && !role && !useCodeOwners) {
+    return allowedUsers;
+  }
+
+  const octokit = github.getOctokit(core.getInput('github-token'));
+  for (const team of teams) {
+    const members = await getTeamMembers(octokit, team);
+    core.info(`Adding ${members.length} member(s) of team "${team.org}/${team.slug}" to allowed users: ${members.join(', ')}`);
+    grantAccess(allowedUsers, members, `team ${team.org}/${team.slug}`);
+  }
+
+  if (role) {
+    const collaborators = await getCollaboratorsWithRole(octokit, github.context.repo, role);
+    core.info(`Adding ${collaborators.length} collaborator(s) with ${role} access to allowed users: ${collaborators.join(', ')}`);
+    grantAccess(allowedUsers, collaborators, `${role} access`);
+  }
+
+  if (useCodeOwners) {
+    const codeOwnersFile = await getCodeOwnersFile(octokit, github.context.repo);
+    const owners = parseCodeOwners(codeOwnersFile.content);
+    core.info(`Adding ${owners.length} code owner(s) from ${codeOwnersFile.path} to allowed users: ${owners.join(', ')}`);
+    grantAccess(allowedUsers, owners, codeOwnersFile.path);
+  }
+
+  return allowedUsers;
+}
+
+/**
+ * Resolve the public SSH keys of every allowed user before the session starts,
+ * so that users who could never connect are reported up front rather than
+ * after minutes of waiting.
+ *
+ * Users without keys produce a warning, or an error if `strict-user-keys` is
+ * set. If neither the allowed users nor the authorized-keys inputs provide a
+ * single key, nobody could connect and the session is not started.
+ *
+ * @returns The public SSH keys of each allowed user
+ */
+async function resolveAllowedUserKeys(allowedUsers: AllowedUsers, authorizedKeys: string[]): Promise<Map<string, string[]>> {
+  const userKeys = new Map<string, string[]>();
+  if (allowedUsers.size === 0) {
+    return userKeys;
+  }
+
+  // getOctokit() targets GITHUB_API_URL, so this also works on GitHub Enterprise Server
+  const octokit = github.getOctokit(core.getInput('github-token'));
+  const usersWithoutKeys: string[] = [];
+  let keyCount = authorizedKeys.length;
+  for (const login of allowedUsers.keys()) {
+    const keys = await getUserPublicKeys(octokit, login);
+    const fingerprints = (keys ?? []).map(getKeyFingerprint);
+    userKeys.set(login, keys ?? []);
+    keyCount += fingerprints.length;
+    if (fingerprints.length === 0) {
+      usersWithoutKeys.push(keys === null ? `${login} (no such GitHub user)` : login);
+    } else {
+      core.info(`Found ${fingerprints.length} public SSH key(s) for ${login}: ${fingerprints.join(', ')}`);
+    }
+  }
+
+  if (usersWithoutKeys.length > 0) {
+    const message = `No public SSH keys found on GitHub for: ${usersWithoutKeys.join(', ')}. They will not be able to connect to the session.`;
+    if (core.getInput('strict-user-keys') === 'true') {
+      throw new Error(`${message} Remove them from the allowed users, or unset strict-user-keys to continue with a warning.`);
+    }
+    core.warning(message);
+  }
+
+  if (keyCount === 0) {
+    throw new Error(
+      'None of the allowed users has a public SSH key on GitHub, so nobody could connect to the session.\n' +
+        'Add an SSH key to one of the GitHub profiles (https://github.com/settings/keys), or authorize keys directly with authorized-keys or authorized-keys-file.'
+    );
+  }
+
+  return userKeys;
+}
+
+/**
+ * List the allowed GitHub users, what granted each of them access, and their
+ * key fingerprints in the job summary.
+ */
+async function reportAllowedUsers(allowedUsers: AllowedUsers, userKeys: Map<string, string[]>): Promise<void> {
+  if (allowedUsers.size === 0) {
+    return;
+  }
+  try {
+    await core.summary
+      .addHeading('Upterm Allowed Users', 3)
+      .addTable([
+        [
+          {data: 'User', header: true},
+          {data: 'Granted by', header: true},
+          {data: 'Keys', header: true},
+          {data: 'Fingerprints', header: true}
+        ],
+        ...[...allowedUsers].map(([login, sources]) => {
+          const fingerprints = (userKeys.get(login) ?? []).map(getKeyFingerprint);
+          return [login, sources.join(', '), String(fingerprints.length), fingerprints.map(fingerprint => `<code>${fingerprint}</code>`).join('<br>')];
+        })
+      ])
+      .write();
+  } catch (error) {
+    core.debug(`Failed to write allowed users to job summary: ${error}`);
+  }
+}
+
+/**
+ * Collect raw authorized_keys entries from the authorized-keys and
+ * authorized-keys-file inputs. Blank lines and comments are skipped.
+ *
+ * @throws Error if the file does not exist or an entry is not a public key
+ */
+function getAuthorizedKeys(): string[] {
+  const lines = core.getInput('authorized-keys').split(/\r?\n/);
+
+  const authorizedKeysFile = core.getInput('authorized-keys-file');
+  if (authorizedKeysFile) {
+    if (!fs.existsSync(authorizedKeysFile)) {
+      throw new Error(`authorized-keys-file does not exist: ${authorizedKeysFile}`);
+    }
+    lines.push(...fs.readFileSync(authorizedKeysFile, 'utf8').split(/\r?\n/));
+  }
+
+  const keys = lines.map(line => line.trim()).filter(line => line && !line.startsWith('#'));
+  for (const key of keys) {
+    if (!AUTHORIZED_KEY_PATTERN.test(key)) {
+      throw new Error(`Invalid authorized_keys entry (expected "[options] <key-type> <base64-key> [comment]"): ${key.slice(0, 40)}`);
+    }
+  }
+  return [...new Set(keys)];
+}
+
+/**
+ * Write the raw authorized_keys entries to a file in the upterm config dir.
+ *
+ * @returns Path to the file, or null if there are no entries
+ */
+function writeAuthorizedKeysFile(authorizedKeys: string[]): string | null {
+  if (authorizedKeys.length === 0) {
+    return null;
+  }
+
+  const authorizedKeysPath = getUptermDirs().authorizedKeys;
+  fs.mkdirSync(path.dirname(authorizedKeysPath), {recursive: true});
+  fs.writeFileSync(authorizedKeysPath, `${authorizedKeys.join('\n')}\n`, {mode: 0o600});
+  core.info(`Authorizing ${authorizedKeys.length} SSH key(s) from authorized-keys inputs.`);
+  return authorizedKeysPath;
+}
+
+function buildAuthorizedKeysParameter(allowedUsers: string[], authorizedKeysPath: string | null): string {
+  const parameters = allowedUsers.map(user => `--github-user ${shellEscape(user)}`);
+  if (authorizedKeysPath) {
+    parameters.push(`--authorized-keys ${shellEscape(toShellPath(authorizedKeysPath))}`);
+  }
+  return parameters.join(' ') + ' ';
+}
+
+function isServerHostKeyCheckSkipped(): boolean {
+  return core.getInput('skip-server-host-key-check') === 'true';
+}
+
+/**
+ * Whether nothing pins the host key of the upterm server, which is only
+ * allowed for the default server.
+ */
+function isServerHostKeyUnpinned(): boolean {
+  return parseKnownHosts(core.getInput('server-known-hosts')).length === 0 && parseHostKeyFingerprints(core.getInput('server-host-key-fingerprint')).length === 0;
+}
+
+/**
+ * Check that the host key of every upterm server other than the default one is
+ * pinned, unless the workflow explicitly opted out of verifying it.
+ */
+function validateServerHostKeyInputs(uptermServers: UptermServer[]): void {
+  const knownHosts = parseKnownHosts(core.getInput('server-known-hosts'));
+  const fingerprints = parseHostKeyFingerprints(core.getInput('server-host-key-fingerprint'));
+  const pinned = knownHosts.length > 0 || fingerprints.length > 0;
+  if (isServerHostKeyCheckSkipped()) {
+    if (pinned) {
+      throw new Error('skip-server-host-key-check cannot be combined with server-known-hosts or server-host-key-fingerprint');
+    }
+    return;
+  }
+  const unpinnedServers = pinned ? [] : uptermServers.filter(server => server.url !== DEFAULT_UPTERM_SERVER);
+  if (unpinnedServers.length > 0) {
+    const sshServers = unpinnedServers.filter(server => server.protocol === 'ssh');
+    const hint =
+      sshServers.length > 0
+        ? `Get ${sshServers.length > 1 ? 'their fingerprints' : 'its fingerprint'} with: ${sshServers.map(server => `ssh-keyscan -p ${server.port} ${server.host} | ssh-keygen -lf -`).join('; ')}`
+        : 'Add its host keys to server-known-hosts.';
+    const servers = unpinnedServers.length > 1 ? `host keys of the upterm servers ${unpinnedServers.map(server => server.url).join(', ')}` : `host key of the upterm server ${unpinnedServers[0].url}`;
+    throw new Error(
+      `The ${servers} must be pinned with server-host-key-fingerprint or server-known-hosts, so that the connection cannot be intercepted. ${hint}\n` + 'To connect without verifying the host key, set skip-server-host-key-check: true.'
+    );
+  }
+  const otherServer = uptermServers.find(server => server.protocol !== 'ssh');
+  if (fingerprints.length > 0 && otherServer) {
+    throw new Error(`server-host-key-fingerprint only works with ssh:// upterm servers, not ${otherServer.url}; pin the host keys with server-known-hosts instead`);
+  }
+}
+
+/**
+ * Read the host keys of the upterm server and keep those matching
+ * server-host-key-fingerprint. upterm then only accepts these keys when it
+ * connects, so a man in the middle cannot slip in another key later.
+ *
+ * @throws Error if the server offers none of the pinned keys
+ */
+async function scanPinnedServerHostKeys(uptermServer: UptermServer, fingerprints: string[]): Promise<string[]> {
+  if (uptermServer.protocol !== 'ssh') {
+    throw new Error(`server-host-key-fingerprint only works with ssh:// upterm servers, not ${uptermServer.url}`);
+  }
+  const server = `${uptermServer.host}:${uptermServer.port}`;
+  let output: string;
+  try {
+    output = await execShellCommand(`ssh-keyscan -T 10 -p ${uptermServer.port} ${shellEscape(uptermServer.host)} 2>/dev/null`);
+  } catch (error) {
+    throw new Error(`Failed to read the host keys of upterm server ${server}: ${error}`);
   }
 
-  return [...new Set(allowedUsers)];
+  const {knownHosts, offered} = selectPinnedHostKeys(output, fingerprints);
+  if (offered.length === 0) {
+    throw new Error(`Failed to read the host keys of upterm server ${server}: ssh-keyscan returned none`);
+  }
+  if (knownHosts.length === 0) {
+    throw new Error(
+      `Host key mismatch for upterm server ${server}: expected ${fingerprints.join(' or ')}, but the server offered ${offered.join(', ')}.\n` +
+        'Someone may be intercepting the connection. If the server changed its host key, update server-host-key-fingerprint after checking the new key with its operator.'
+    );
+  }
+  core.info(`Verified the host key of upterm server ${server}: ${offered.filter(fingerprint => fingerprints.includes(fingerprint)).join(', ')}`);
+  return knownHosts;
 }
 
-function buildAuthorizedKeysParameter(allowedUsers: string[]): string {
-  return allowedUsers.map(user => `--github-user ${shellEscape(user)}`).join(' ') + ' ';
+/**
+ * Write the pinned host keys of the upterm server to a known_hosts file of
+ * its own, leaving ~/.ssh alone. upterm records the key it accepts there when
+ * the check is skipped, so the file is passed in every case.
+ *
+ * @returns The `upterm host` flags that enforce the file, or skip the check if the workflow opted out
+ */
+async function prepareServerHostKeyCheck(uptermServer: UptermServer): Promise<string> {
+  const knownHostsPath = getUptermDirs().knownHosts;
+  const knownHostsParameter = `--known-hosts ${shellEscape(toShellPath(knownHostsPath))}`;
+  fs.mkdirSync(path.dirname(knownHostsPath), {recursive: true});
+
+  let skipReason = '';
+  if (isServerHostKeyCheckSkipped()) {
+    skipReason = 'skip-server-host-key-check is set, so the host key of the upterm server is not verified and the connection to it could be intercepted';
+  } else if (isServerHostKeyUnpinned()) {
+    // validateServerHostKeyInputs() only lets this through for the default server
+    skipReason = `The host key of upterm server ${uptermServer.url} is not pinned, so it is accepted without verification. Pin it with server-host-key-fingerprint: ssh-keyscan -p ${uptermServer.port} ${uptermServer.host} | ssh-keygen -lf -`;
+  }
+  if (skipReason) {
+    core.warning(skipReason);
+    fs.writeFileSync(knownHostsPath, '');
+    return `--skip-host-key-check ${knownHostsParameter}`;
+  }
+
+  const knownHosts = parseKnownHosts(core.getInput('server-known-hosts'));
+  const fingerprints = parseHostKeyFingerprints(core.getInput('server-host-key-fingerprint'));
+  if (fingerprints.length > 0) {
+    knownHosts.push(...(await scanPinnedServerHostKeys(uptermServer, fingerprints)));
+  }
+
+  fs.writeFileSync(knownHostsPath, `${knownHosts.join('\n')}\n`);
+  return knownHostsParameter;
 }
 
-async function createUptermSession(uptermServer: string, authorizedKeysParameter: string): Promise<void> {
-  core.info(`Creating a new session. Connecting to upterm server ${uptermServer}`);
+async function createUptermSession(uptermServer: UptermServer, authorizedKeysParameter: string, hostKeyParameter: string): Promise<void> {
+  core.info(`Creating a new session. Connecting to upterm server ${uptermServer.url}`);
 
   // Get deterministic paths for all upterm-related files
   const dirs = getUptermDirs();
+  const privateKeyParameter = sshKeyPaths.map(keyPath => `--private-key ${shellEscape(toShellPath(keyPath))}`).join(' ');
 
   // Create all required directories - upterm and our action expect these to exist
   fs.mkdirSync(dirs.runtime, {recursive: true});
@@ -412,7 +1077,7 @@ setw -g aggressive-resize on
 
   try {
     await execShellCommand(
-      `tmux ${tmuxConfFlagOuter} new -d -s upterm-wrapper -x ${TMUX_DIMENSIONS.width} -y ${TMUX_DIMENSIONS.height} "upterm host --skip-host-key-check --accept --server ${shellEscape(uptermServer)} ${authorizedKeysParameter} --force-command 'tmux attach -t upterm' -- tmux ${tmuxConfFlagInner} new -s upterm -x ${TMUX_DIMENSIONS.width} -y ${TMUX_DIMENSIONS.height} 2>&1 | tee ${shellEscape(getUptermCommandLogPath())}" 2>${shellEscape(getTmuxErrorLogPath())}`
+      `tmux ${tmuxConfFlagOuter} new -d -s upterm-wrapper -x ${TMUX_DIMENSIONS.width} -y ${TMUX_DIMENSIONS.height} "upterm host ${hostKeyParameter} --accept --server ${shellEscape(uptermServer.url)} ${privateKeyParameter} ${authorizedKeysParameter} --force-command 'tmux attach -t upterm' -- tmux ${tmuxConfFlagInner} new -s upterm -x ${TMUX_DIMENSIONS.width} -y ${TMUX_DIMENSIONS.height} 2>&1 | tee ${shellEscape(getUptermCommandLogPath())}" 2>${shellEscape(getTmuxErrorLogPath())}`
     );
     core.debug('Created new session successfully');
   } catch (error) {
@@ -441,9 +1106,78 @@ Troubleshooting:
 For help, see: https://github.com/owenthereal/action-upterm/issues`;
     throw new Error(errorMsg);
   }
+
+  if (isRecordingEnabled()) {
+    await startSessionRecording();
+  }
 }
 
-async function setupSessionTimeout(waitTimeoutMinutes: string): Promise<void> {
+function isRecordingEnabled(): boolean {
+  return core.getInput('record-session') === 'true';
+}
+
+/**
+ * Whether the session ends in the POST action, after every other step of the
+ * job: in detached mode and with mode on-failure. Files written when it ends
+ * are then not published as outputs, as no step could use them.
+ */
+function endsInPostStep(): boolean {
+  return core.getInput('detached') === 'true' || core.getInput('mode') === 'on-failure';
+}
+
+/**
+ * Start capturing the inner `upterm` tmux session with timing information.
+ * The capture is converted to an asciicast file by finalizeSessionRecording().
+ */
+async function startSessionRecording(): Promise<void> {
+  const {recording} = getUptermDirs();
+  fs.writeFileSync(recording.raw, buildRawRecordingHeader(new Date()));
+
+  // upterm spawns the inner session asynchronously, so wait for it to exist before piping it
+  const recorderCommand = buildRecorderCommand(shellEscape(toMsys2Path(recording.raw)));
+  try {
+    await execShellCommand(`for i in $(seq 1 ${RECORDING_ATTACH_RETRIES}); do tmux has-session -t upterm 2>/dev/null && break; sleep 0.5; done; tmux pipe-pane -o -t upterm ${shellEscape(recorderCommand)}`);
+  } catch (error) {
+    throw new Error(`Failed to start session recording: ${error}`);
+  }
+
+  if (!endsInPostStep()) {
+    core.setOutput('recording-path', recording.cast);
+  }
+  core.info(`Recording session to ${recording.cast}`);
+}
+
+/**
+ * Stop the session recording (if one is running) and write the asciicast file.
+ */
+async function finalizeSessionRecording(): Promise<void> {
+  const {recording} = getUptermDirs();
+  if (!isRecordingEnabled() || !fs.existsSync(recording.raw)) {
+    return;
+  }
+
+  try {
+    // Closing the pipe flushes the recorder; harmless if tmux is already gone
+    await execShellCommand('tmux pipe-pane -t upterm 2>/dev/null || true');
+  } catch (error) {
+    core.debug(`Failed to stop session recording pipe: ${error}`);
+  }
+
+  try {
+    const cast = convertToAsciicast(fs.readFileSync(recording.raw), {
+      width: TMUX_DIMENSIONS.width,
+      height: TMUX_DIMENSIONS.height,
+      title: `${github.context.repo.owner}/${github.context.repo.repo} run ${github.context.runId}`
+    });
+    fs.writeFileSync(recording.cast, cast);
+    fs.rmSync(recording.raw, {force: true});
+    core.info(`Session recording saved to ${recording.cast}`);
+  } catch (error) {
+    core.warning(`Failed to finalise session recording: ${error}`);
+  }
+}
+
+async function setupSessionTimeout(waitTimeoutMinutes: string): Promise<void> {
   const timeout = parseInt(waitTimeoutMinutes, 10);
   const timeoutFlagPath = getUptermTimeoutFlagPath();
 
@@ -465,6 +1199,101 @@ async function setupSessionTimeout(waitTimeoutMinutes: string): Promise<void> {
   }
 }
 
+async function setupIdleTimeout(idleTimeoutMinutes: string): Promise<void> {
+  const timeout = parseInt(idleTimeoutMinutes, 10);
+  const idleFlagPath = toMsys2Path(getUptermDirs().idleFlag);
+  const idleWatcherPidPath = toMsys2Path(getUptermDirs().idleWatcherPid);
+
+  // tmux records the time of each client's last keypress in #{client_activity}.
+  // Remember the latest activity seen so that clients who disconnect without
+  // resuming the workflow still count as idle.
+  const idleScript = `
+    (
+      last_activity="";
+      while sleep ${IDLE_CHECK_INTERVAL_SECONDS}; do
+        activity=$(tmux list-clients -t upterm -F '#{client_activity}' 2>/dev/null | sort -n | tail -n 1);
+        if [ -n "$activity" ]; then last_activity="$activity"; fi;
+        if [ -n "$last_activity" ] && [ $(( $(date +%s) - last_activity )) -ge $(( ${timeout} * 60 )) ]; then
+          echo "UPTERM_IDLE_TIMEOUT_REACHED" > ${shellEscape(idleFlagPath)};
+          tmux kill-server;
+          break;
+        fi;
+      done
+    ) & echo $! > ${shellEscape(idleWatcherPidPath)}; disown
+  `;
+
+  try {
+    await execShellCommand(idleScript);
+    core.info(`idle-timeout-minutes set - will end the session after ${idleTimeoutMinutes} minutes without keyboard activity from connected users`);
+  } catch (error) {
+    throw new Error(`Failed to setup idle timeout: ${error}`);
+  }
+}
+
+/**
+ * Stop a watcher started in the background by the setup functions above, so
+ * that it does not outlive the session (and, say, kill a tmux server started
+ * by a later step).
+ */
+async function stopSessionWatcher(pidFile: string): Promise<void> {
+  if (!fs.existsSync(pidFile)) {
+    return;
+  }
+  const pid = parseInt(fs.readFileSync(pidFile, 'utf8'), 10);
+  fs.rmSync(pidFile, {force: true});
+  if (isNaN(pid)) {
+    return;
+  }
+  try {
+    // The subshell is killed before its current sleep, which would otherwise
+    // let it carry on with the next command
+    await execShellCommand(`kill ${pid} $(pgrep -P ${pid}) 2>/dev/null || true`);
+  } catch (error) {
+    core.debug(`Failed to stop session watcher ${pid}: ${error}`);
+  }
+}
+
+/**
+ * Build the shell commands that warn every connected client that the session
+ * is about to end, both as a message and in the tmux status line.
+ */
+function buildSessionEndWarning(minutesLeft: number): string {
+  const message = `upterm: session ends in ${minutesLeft} minute(s) (max-session-minutes)`;
+  return `tmux set-option -g status-right-length 80 \\; set-option -g status-right ${shellEscape(message)} 2>/dev/null;
+        for client in $(tmux list-clients -F '#{client_name}' 2>/dev/null); do tmux display-message -c "$client" ${shellEscape(message)}; done;`;
+}
+
+async function setupMaxSessionDuration(maxSessionMinutes: string): Promise<void> {
+  const maxMinutes = parseInt(maxSessionMinutes, 10);
+  const maxDurationFlagPath = toMsys2Path(getUptermDirs().maxDurationFlag);
+  const maxDurationWatcherPidPath = toMsys2Path(getUptermDirs().maxDurationWatcherPid);
+
+  let elapsedSeconds = 0;
+  const warnings = MAX_SESSION_WARNING_MINUTES.filter(minutes => minutes < maxMinutes).map(minutes => {
+    const warnAtSeconds = (maxMinutes - minutes) * 60;
+    const step = `sleep ${warnAtSeconds - elapsedSeconds};
+        ${buildSessionEndWarning(minutes)}`;
+    elapsedSeconds = warnAtSeconds;
+    return step;
+  });
+
+  const maxDurationScript = `
+    (
+      ${warnings.join('\n      ')}
+      sleep ${maxMinutes * 60 - elapsedSeconds};
+      echo "UPTERM_MAX_DURATION_REACHED" > ${shellEscape(maxDurationFlagPath)};
+      tmux kill-server;
+    ) & echo $! > ${shellEscape(maxDurationWatcherPidPath)}; disown
+  `;
+
+  try {
+    await execShellCommand(maxDurationScript);
+    core.info(`max-session-minutes set - the session will be shut down after ${maxSessionMinutes} minutes regardless of connected users`);
+  } catch (error) {
+    throw new Error(`Failed to setup maximum session duration: ${error}`);
+  }
+}
+
 async function collectDiagnostics(): Promise<string> {
   const dirs = getUptermDirs();
   const uptermDir = getUptermSocketDir();
@@ -545,75 +1374,356 @@ async function collectDiagnostics(): Promise<string> {
   return diagnostics;
 }
 
-async function waitForUptermReady(): Promise<void> {
+/**
+ * The line of the upterm command log that says upterm could not connect to
+ * the upterm server, if any.
+ */
+function findUptermConnectionError(): string | null {
+  let log: string;
+  try {
+    // The native path: getUptermCommandLogPath() is the MSYS2 path on Windows, which fs cannot open
+    log = fs.readFileSync(getUptermDirs().logs.uptermCommand, 'utf8');
+  } catch {
+    return null;
+  }
+  const line = log.split(/\r?\n/).find(candidate => UPTERM_CONNECTION_ERROR_PATTERN.test(candidate));
+  return line ? line.trim() : null;
+}
+
+/**
+ * Wait for upterm to create its admin socket.
+ *
+ * @param failFast - Throw a one-line reason instead of the full diagnostics,
+ *   for when another upterm server is tried next
+ * @throws Error if upterm logs a connection error or the socket never appears
+ */
+async function waitForUptermReady(failFast = false): Promise<void> {
   let tries = UPTERM_READY_MAX_RETRIES;
+  let connectionError: string | null = null;
   while (tries-- > 0) {
     core.info(`Waiting for upterm to be ready... (${UPTERM_READY_MAX_RETRIES - tries}/${UPTERM_READY_MAX_RETRIES})`);
     if (uptermSocketExists()) return;
+    connectionError = findUptermConnectionError();
+    if (connectionError) break;
     await sleep(UPTERM_SOCKET_POLL_INTERVAL);
   }
 
+  if (failFast) {
+    throw new Error(connectionError ? `upterm could not connect: ${connectionError}` : `upterm did not create its socket within ${(UPTERM_READY_MAX_RETRIES * UPTERM_SOCKET_POLL_INTERVAL) / 1000} seconds`);
+  }
+
   // Socket not found after retries, collect diagnostics
   const diagnostics = await collectDiagnostics();
   throw new Error(diagnostics);
 }
 
-async function outputSshCommand(): Promise<void> {
+/**
+ * Query the upterm admin socket and parse the result into a SessionInfo.
+ * Asks for upterm's JSON output, and falls back to the text output for
+ * versions that do not have it.
+ *
+ * @throws Error if `upterm session current` fails (e.g. the socket is gone)
+ */
+async function readSessionInfo(socketPath: string): Promise<SessionInfo | null> {
+  const command = `upterm session current --admin-socket ${shellEscape(socketPath)}`;
+  const output = await execShellCommand(`${command} --output json 2>/dev/null || ${command}`);
+  const info = parseSessionInfo(output);
+  if (info) {
+    maskSessionSecrets(info);
+  } else {
+    core.debug(`Could not parse upterm session info from output: ${output}`);
+  }
+  return info;
+}
+
+/**
+ * Whether the session token must be kept out of logs, outputs and the job
+ * summary: always with encrypt-ssh-command, and by default on public
+ * repositories, whose logs anyone can read. Events whose payload does not
+ * say whether the repository is private, such as schedule, count as public.
+ */
+function shouldMaskSshCommand(): boolean {
+  if (core.getInput('encrypt-ssh-command') === 'true') {
+    return true;
+  }
+  const mask = core.getInput('mask-ssh-command') || 'auto';
+  return mask === 'auto' ? github.context.payload.repository?.private !== true : mask === 'true';
+}
+
+function maskSessionSecrets(info: SessionInfo): void {
+  if (!shouldMaskSshCommand()) {
+    return;
+  }
+  // Registering a secret again is harmless, so this runs for every read of the session
+  for (const secret of getSessionSecrets(info)) {
+    core.setSecret(secret);
+  }
+}
+
+// The keys to encrypt the SSH command to with encrypt-ssh-command. The POST
+// action of detached mode reads them from the saved state instead.
+let sshCommandRecipients: SshPublicKey[] | null = null;
+// The encrypted SSH command, so that every place shows the same ciphertext
+let encryptedSshCommand: {sshCommand: string; armored: string} | null = null;
+
+/**
+ * Pick the keys of the allowed users and authorized-keys entries that the SSH
+ * command can be encrypted to, and remember them for the POST action.
+ *
+ * @throws Error if there is no such key, as nobody could read the SSH command
+ */
+function setSshCommandRecipients(keys: string[]): void {
+  const parsedKeys = new Map<string, SshPublicKey>();
+  for (const key of keys.map(parseSshPublicKey)) {
+    if (key) {
+      parsedKeys.set(key.blob.toString('base64'), key);
+    }
+  }
+  const recipients = [...parsedKeys.values()].filter(isEncryptionKey);
+  const unsupported = [...parsedKeys.values()].filter(key => !isEncryptionKey(key));
+  if (unsupported.length > 0) {
+    core.warning(`Not encrypting the SSH command to ${unsupported.length} key(s) of type ${[...new Set(unsupported.map(key => key.type))].join(', ')}: only ssh-ed25519 and ssh-rsa keys are supported`);
+  }
+  if (recipients.length === 0) {
+    throw new Error(
+      'encrypt-ssh-command is set, but there is no ssh-ed25519 or ssh-rsa key to encrypt the SSH command to.\n' +
+        'Limit access with limit-access-to-users (or another limit-access-to-* input) to users with such keys on GitHub, or add them with authorized-keys.'
+    );
+  }
+  core.info(`Encrypting the SSH command to ${recipients.length} SSH key(s)`);
+  sshCommandRecipients = recipients;
+  core.saveState('sshCommandRecipients', JSON.stringify(recipients.map(key => `${key.type} ${key.blob.toString('base64')}`)));
+}
+
+function getSshCommandRecipients(): SshPublicKey[] {
+  if (sshCommandRecipients) {
+    return sshCommandRecipients;
+  }
+  const state = core.getState('sshCommandRecipients');
+  return state ? (JSON.parse(state) as string[]).map(parseSshPublicKey).filter((key): key is SshPublicKey => key !== null) : [];
+}
+
+function isSshCommandEncrypted(): boolean {
+  return getSshCommandRecipients().length > 0;
+}
+
+/**
+ * The SSH command as it may be published in logs, outputs, the job summary,
+ * pull request comments and webhooks: encrypted to the allowed users' keys
+ * with encrypt-ssh-command, otherwise as is.
+ */
+function publishSshCommand(sshCommand: string): string {
+  const recipients = getSshCommandRecipients();
+  if (recipients.length === 0) {
+    return sshCommand;
+  }
+  if (encryptedSshCommand?.sshCommand !== sshCommand) {
+    encryptedSshCommand = {sshCommand, armored: encryptToSshKeys(`${sshCommand}\n`, recipients)};
+  }
+  return encryptedSshCommand.armored;
+}
+
+async function outputSshCommand(uptermServer: UptermServer): Promise<SessionInfo | null> {
   try {
     const socketPath = findUptermSocket();
     if (!socketPath) {
       core.warning('Could not find upterm socket to retrieve SSH command');
-      return;
+      return null;
     }
 
-    const sessionInfo = await execShellCommand(`upterm session current --admin-socket "${socketPath}"`);
-
-    // Parse SSH command from session info
-    const sshMatch = sessionInfo.match(/ssh\s+(\S+@\S+)/i);
-    if (sshMatch) {
-      const sshCommand = `ssh ${sshMatch[1]}`;
+    const sessionInfo = await readSessionInfo(socketPath);
+    if (sessionInfo) {
+      const sshCommand = publishSshCommand(sessionInfo.sshCommand);
       core.setOutput('ssh-command', sshCommand);
 
       // Also write to job summary for easy retrieval via API
-      await core.summary.addHeading('Upterm SSH Connection').addCodeBlock(sshCommand, 'bash').addRaw(`\n\nConnect with: <code>${sshCommand}</code>`).write();
-
-      core.info(`SSH command available as output: ${sshCommand}`);
+      if (isSshCommandEncrypted()) {
+        await core.summary.addHeading('Upterm SSH Connection').addRaw(SSH_COMMAND_DECRYPT_HINT).addCodeBlock(sshCommand).addRaw(`Upterm server: <code>${uptermServer.url}</code>`).write();
+        core.info(`SSH command available as output, encrypted. ${SSH_COMMAND_DECRYPT_HINT}\n${sshCommand}`);
+      } else {
+        await core.summary
+          .addHeading('Upterm SSH Connection')
+          .addCodeBlock(sshCommand, 'bash')
+          .addRaw(`\n\nConnect with: <code>${sshCommand}</code>`)
+          .addRaw(`\n\nSession <code>${sessionInfo.sessionId}</code> on <code>${sessionInfo.host}</code> via upterm server <code>${uptermServer.url}</code>`)
+          .write();
+
+        core.info(`SSH command available as output: ${sshCommand}`);
+        if (shouldMaskSshCommand()) {
+          core.info('The session token is masked because anyone can read the logs of this public repository. Set encrypt-ssh-command to publish the SSH command encrypted to the SSH keys of the allowed users.');
+        }
+      }
+      await notifyWebhook('session-ready', sshCommand, {expiresAt: getSessionExpiry()});
     }
+    return sessionInfo;
   } catch (error) {
     core.debug(`Failed to extract SSH command for output: ${error}`);
+    return null;
   }
 }
 
-async function startUptermSession(): Promise<void> {
-  const allowedUsers = getAllowedUsers();
-  const authorizedKeysParameter = buildAuthorizedKeysParameter(allowedUsers);
-  const uptermServer = core.getInput('upterm-server');
-  const waitTimeoutMinutes = core.getInput('wait-timeout-minutes');
-
-  await createUptermSession(uptermServer, authorizedKeysParameter);
+async function startOnUptermServer(uptermServer: UptermServer, authorizedKeysParameter: string, failFast: boolean): Promise<void> {
+  const hostKeyParameter = await prepareServerHostKeyCheck(uptermServer);
+  await createUptermSession(uptermServer, authorizedKeysParameter, hostKeyParameter);
   await sleep(UPTERM_INIT_DELAY);
+  await waitForUptermReady(failFast);
+}
+
+/**
+ * Start the session on the first of the upterm-server servers that works.
+ * A server is skipped if its host key cannot be verified, upterm logs a
+ * connection error, or its socket never appears; only the last server fails
+ * the run.
+ *
+ * @returns The server the session runs on
+ */
+async function connectToUptermServer(authorizedKeysParameter: string): Promise<UptermServer> {
+  const uptermServers = getUptermServers();
+  for (const [index, uptermServer] of uptermServers.slice(0, -1).entries()) {
+    try {
+      await startOnUptermServer(uptermServer, authorizedKeysParameter, true);
+      return uptermServer;
+    } catch (error) {
+      const reason = (error instanceof Error ? error.message : String(error)).split('\n')[0];
+      core.warning(`Could not start a session on upterm server ${uptermServer.url} (${reason}); trying ${uptermServers[index + 1].url}`);
+      try {
+        await execShellCommand('tmux kill-server 2>/dev/null || true');
+      } catch {
+        // Ignore errors while giving up on a server
+      }
+    }
+  }
 
+  const lastServer = uptermServers[uptermServers.length - 1];
+  await startOnUptermServer(lastServer, authorizedKeysParameter, false);
+  return lastServer;
+}
+
+async function startUptermSession(allowedUsers: AllowedUsers): Promise<void> {
+  const authorizedKeys = getAuthorizedKeys();
+  const userKeys = await resolveAllowedUserKeys(allowedUsers, authorizedKeys);
+  sshCommandRecipients = [];
+  encryptedSshCommand = null;
+  if (core.getInput('encrypt-ssh-command') === 'true') {
+    setSshCommandRecipients([...[...userKeys.values()].flat(), ...authorizedKeys]);
+  }
+  const authorizedKeysPath = writeAuthorizedKeysFile(authorizedKeys);
+  const authorizedKeysParameter = buildAuthorizedKeysParameter([...allowedUsers.keys()], authorizedKeysPath);
+  const uptermServer = await connectToUptermServer(authorizedKeysParameter);
+  core.setOutput('upterm-server', uptermServer.url);
+
+  const waitTimeoutMinutes = core.getInput('wait-timeout-minutes');
   if (waitTimeoutMinutes) {
     await setupSessionTimeout(waitTimeoutMinutes);
   }
 
-  await waitForUptermReady();
-  await outputSshCommand();
+  const idleTimeoutMinutes = core.getInput('idle-timeout-minutes');
+  if (idleTimeoutMinutes) {
+    await setupIdleTimeout(idleTimeoutMinutes);
+  }
+
+  const maxSessionMinutes = core.getInput('max-session-minutes');
+  if (maxSessionMinutes) {
+    await setupMaxSessionDuration(maxSessionMinutes);
+  }
+
+  const sessionInfo = await outputSshCommand(uptermServer);
+  await reportAllowedUsers(allowedUsers, userKeys);
+  if (sessionInfo) {
+    await startSessionComment(publishSshCommand(sessionInfo.sshCommand), [...allowedUsers.keys()]);
+  }
+}
+
+/**
+ * Log and record the clients that connected or disconnected since the last poll.
+ */
+function trackConnectedClients(timeline: SessionTimeline, sessionInfo: SessionInfo): void {
+  for (const event of updateSessionTimeline(timeline, sessionInfo.connectedClients)) {
+    core.info(describeSessionEvent(event));
+  }
+}
+
+/**
+ * Close the client timeline and report it in the job summary and the JSON
+ * audit file (exposed as the `audit-log` output unless endsInPostStep()).
+ */
+async function reportSessionTimeline(timeline: SessionTimeline, sessionInfo: SessionInfo | null): Promise<void> {
+  for (const event of closeSessionTimeline(timeline)) {
+    core.info(describeSessionEvent(event));
+  }
+
+  const auditLogPath = getUptermDirs().auditLog;
+  try {
+    const audit = {
+      sessionId: sessionInfo?.sessionId ?? null,
+      host: sessionInfo?.host ?? null,
+      repository: `${github.context.repo.owner}/${github.context.repo.repo}`,
+      runId: github.context.runId,
+      events: timeline.events
+    };
+    fs.mkdirSync(path.dirname(auditLogPath), {recursive: true});
+    fs.writeFileSync(auditLogPath, JSON.stringify(audit, null, 2));
+    if (!endsInPostStep()) {
+      core.setOutput('audit-log', auditLogPath);
+    }
+  } catch (error) {
+    core.warning(`Failed to write session audit log: ${error}`);
+  }
+
+  try {
+    core.summary.addHeading('Upterm Session Timeline', 3);
+    if (timeline.events.length === 0) {
+      core.summary.addRaw('No clients connected to this session.', true);
+    } else {
+      core.summary.addTable([
+        [
+          {data: 'Time', header: true},
+          {data: 'Event', header: true},
+          {data: 'User', header: true},
+          {data: 'Key fingerprint', header: true},
+          {data: 'Client address', header: true}
+        ],
+        ...timeline.events.map(event => [event.timestamp, event.type, event.user || 'unknown', event.fingerprint || 'unknown', event.address || 'unknown'])
+      ]);
+    }
+    await core.summary.write();
+  } catch (error) {
+    core.debug(`Failed to write session timeline to job summary: ${error}`);
+  }
 }
 
 async function monitorSession(): Promise<void> {
   core.debug('Entering main loop');
+  const timeline = createSessionTimeline();
+  let lastSessionInfo: SessionInfo | null = null;
+  let outcome: SessionOutcome | null = null;
+  let endReason: SessionEndReason = 'upterm-exited';
   // Main loop: wait for /continue file or upterm exit
   /*eslint no-constant-condition: ["error", { "checkLoops": false }]*/
   while (true) {
-    if (continueFileExists()) {
+    outcome = readContinueFile();
+    if (outcome) {
       core.info("Exiting debugging session because '/continue' file was created");
+      endReason = 'continue';
       break;
     }
 
     // Check if timeout was reached before checking socket
     if (isTimeoutReached()) {
       logTimeoutMessage();
+      endReason = 'wait-timeout';
+      break;
+    }
+
+    if (isIdleTimeoutReached()) {
+      logIdleTimeoutMessage();
+      endReason = 'idle-timeout';
+      break;
+    }
+
+    if (isMaxDurationReached()) {
+      logMaxDurationMessage();
+      endReason = 'max-session-minutes';
       break;
     }
 
@@ -627,11 +1737,27 @@ async function monitorSession(): Promise<void> {
       if (!socketPath) {
         throw new Error('Socket file not found');
       }
-      core.info(await execShellCommand(`upterm session current --admin-socket "${socketPath}"`));
+      const sessionInfo = await readSessionInfo(socketPath);
+      if (sessionInfo) {
+        core.info(formatSessionStatus(sessionInfo));
+        trackConnectedClients(timeline, sessionInfo);
+        lastSessionInfo = sessionInfo;
+      }
     } catch (error) {
       // Check if this error is due to timeout before throwing
       if (isTimeoutReached()) {
         logTimeoutMessage();
+        endReason = 'wait-timeout';
+        break;
+      }
+      if (isIdleTimeoutReached()) {
+        logIdleTimeoutMessage();
+        endReason = 'idle-timeout';
+        break;
+      }
+      if (isMaxDurationReached()) {
+        logMaxDurationMessage();
+        endReason = 'max-session-minutes';
         break;
       }
       // For other connection issues, provide more context
@@ -640,12 +1766,23 @@ async function monitorSession(): Promise<void> {
         core.error('Upterm session appears to have ended unexpectedly');
         core.error(`Connection error: ${errorMessage}`);
         core.info('This may indicate the upterm process crashed or was terminated externally');
+        endReason = 'connection-lost';
         break;
       }
       throw new Error(`Failed to get upterm session status: ${error}`);
     }
     await sleep(SESSION_STATUS_POLL_INTERVAL);
   }
+
+  await stopSessionWatcher(getUptermDirs().idleWatcherPid);
+  await stopSessionWatcher(getUptermDirs().maxDurationWatcherPid);
+  await finalizeSessionRecording();
+  await reportSessionTimeline(timeline, lastSessionInfo);
+  await notifyWebhook('session-ended', lastSessionInfo ? publishSshCommand(lastSessionInfo.sshCommand) : '', {reason: endReason});
+  await endSessionComment(endReason);
+  if (outcome) {
+    await applySessionOutcome(outcome);
+  }
 }
 
 function getUptermSocketDir(): string {
@@ -670,9 +1807,217 @@ function uptermSocketExists(): boolean {
   return findUptermSocket() !== null;
 }
 
-function continueFileExists(): boolean {
+/**
+ * Webhook settings from the notify-webhook-* inputs, or null if no webhook is configured.
+ */
+function getWebhookOptions(): WebhookOptions | null {
+  const url = core.getInput('notify-webhook-url');
+  if (!url) {
+    return null;
+  }
+  return {url, template: core.getInput('notify-webhook-template') || undefined, secret: core.getInput('notify-webhook-secret') || undefined};
+}
+
+function validateWebhookInputs(): void {
+  const options = getWebhookOptions();
+  if (!options) {
+    return;
+  }
+
+  if (!isHttpUrl(options.url)) {
+    throw new Error('notify-webhook-url must be an http:// or https:// URL');
+  }
+
+  if (options.template) {
+    try {
+      JSON.parse(renderWebhookBody(buildWebhookPayload('session-ready', 'ssh example@uptermd.upterm.dev', {}), options.template));
+    } catch (error) {
+      throw new Error(`notify-webhook-template must render to valid JSON: ${error}`);
+    }
+  }
+}
+
+/**
+ * When max-session-minutes will end a session that is ready now, if set.
+ */
+function getSessionExpiry(): string | null {
+  const maxSessionMinutes = core.getInput('max-session-minutes');
+  return maxSessionMinutes ? new Date(Date.now() + parseInt(maxSessionMinutes, 10) * 60 * 1000).toISOString() : null;
+}
+
+function getRunUrl(): string {
+  const {owner, repo} = github.context.repo;
+  return `${github.context.serverUrl}/${owner}/${repo}/actions/runs/${github.context.runId}`;
+}
+
+function buildWebhookPayload(event: WebhookEvent, sshCommand: string, details: {expiresAt?: string | null; reason?: SessionEndReason}): WebhookPayload {
+  const {owner, repo} = github.context.repo;
+  const repository = `${owner}/${repo}`;
+  const where = `${repository} (${github.context.workflow} / ${github.context.job})`;
+  return {
+    event,
+    text: event === 'session-ready' ? `Upterm session ready for ${where}: ${isSshCommandEncrypted() ? "the SSH command is encrypted to the allowed users' SSH keys" : sshCommand}` : `Upterm session ended for ${where}: ${details.reason}`,
+    timestamp: new Date().toISOString(),
+    repository,
+    workflow: github.context.workflow,
+    job: github.context.job,
+    actor: github.context.actor,
+    runUrl: getRunUrl(),
+    sshCommand,
+    expiresAt: details.expiresAt ?? null,
+    reason: details.reason ?? null
+  };
+}
+
+/**
+ * POST a session event to notify-webhook-url, if configured. Delivery
+ * problems are reported as warnings and never fail the step.
+ */
+async function notifyWebhook(event: WebhookEvent, sshCommand: string, details: {expiresAt?: string | null; reason?: SessionEndReason}): Promise<void> {
+  const options = getWebhookOptions();
+  if (!options) {
+    return;
+  }
+  try {
+    await sendWebhook(buildWebhookPayload(event, sshCommand, details), options);
+    core.info(`Sent ${event} notification to notify-webhook-url`);
+  } catch (error) {
+    core.warning(`${error instanceof Error ? error.message : error}`);
+  }
+}
+
+// The pull request comment of a session started in this process. The POST
+// action of detached mode reads it from the saved state instead.
+let activeSessionComment: SessionComment | null = null;
+
+/**
+ * The pull request to keep the sticky comment on, or null unless comment-on-pr
+ * is set and this run belongs to a pull request.
+ */
+function getCommentPullRequestNumber(): number | null {
+  if (core.getInput('comment-on-pr') !== 'true') {
+    return null;
+  }
+  const number = github.context.payload.pull_request?.number;
+  if (!number) {
+    core.debug('comment-on-pr is set, but this run does not belong to a pull request');
+    return null;
+  }
+  return number;
+}
+
+/**
+ * Create or update the sticky pull request comment. Problems are reported as
+ * warnings and never fail the step.
+ */
+async function commentOnPullRequest(number: number, comment: SessionComment): Promise<void> {
+  try {
+    const octokit = github.getOctokit(core.getInput('github-token'));
+    await upsertPullRequestComment(octokit, {...github.context.repo, number}, comment);
+    core.info(`Updated the upterm session comment on pull request #${number}`);
+  } catch (error) {
+    core.warning(`Failed to comment on pull request #${number} (the github-token needs the pull-requests: write permission): ${error}`);
+  }
+}
+
+/**
+ * Name the job in the sticky comment, so that every leg of a matrix keeps its
+ * own comment: by the job name the workflow run shows, which includes the
+ * matrix values, or by the runner if the jobs of the run cannot be listed.
+ */
+async function getCommentJobName(): Promise<string> {
+  const runnerName = process.env.RUNNER_NAME || '';
+  try {
+    const octokit = github.getOctokit(core.getInput('github-token'));
+    const jobName = await getCurrentJobName(octokit, {...github.context.repo, runId: github.context.runId, runAttempt: github.context.runAttempt, runnerName});
+    if (jobName) {
+      return `${github.context.workflow} / ${jobName}`;
+    }
+  } catch (error) {
+    core.debug(`Could not look up the name of the current job: ${error}`);
+  }
+  return `${github.context.workflow} / ${github.context.job}${runnerName ? ` (${runnerName})` : ''}`;
+}
+
+/**
+ * Post the connection details to the pull request, and remember them (also
+ * for the POST action) so the comment can be updated when the session ends.
+ */
+async function startSessionComment(sshCommand: string, allowedUsers: string[]): Promise<void> {
+  const number = getCommentPullRequestNumber();
+  if (!number) {
+    return;
+  }
+  const comment: SessionComment = {
+    jobName: await getCommentJobName(),
+    runUrl: getRunUrl(),
+    // Comments on public repositories are public, so a masked token must not end up there
+    sshCommand: shouldMaskSshCommand() && !isSshCommandEncrypted() ? undefined : sshCommand,
+    encrypted: isSshCommandEncrypted(),
+    allowedUsers,
+    startedAt: new Date().toISOString()
+  };
+  activeSessionComment = comment;
+  core.saveState('sessionComment', JSON.stringify(comment));
+  await commentOnPullRequest(number, comment);
+}
+
+/**
+ * Edit the sticky pull request comment to show how and when the session ended.
+ */
+async function endSessionComment(reason: SessionEndReason): Promise<void> {
+  const number = getCommentPullRequestNumber();
+  const state = core.getState('sessionComment');
+  const started: SessionComment | null = activeSessionComment ?? (state ? JSON.parse(state) : null);
+  if (!number || !started) {
+    return;
+  }
+  activeSessionComment = null;
+  await commentOnPullRequest(number, {...started, endedAt: new Date().toISOString(), reason});
+}
+
+/**
+ * Read the continue file, if one was created.
+ *
+ * @returns The outcome the file asks for, or null if no continue file exists
+ */
+function readContinueFile(): SessionOutcome | null {
   const continuePath = process.platform === 'win32' ? CONTINUE_FILE_PATHS.win32 : CONTINUE_FILE_PATHS.unix;
-  return fs.existsSync(continuePath) || fs.existsSync(path.join(process.env.GITHUB_WORKSPACE ?? '/', 'continue'));
+  const foundPath = [continuePath, path.join(process.env.GITHUB_WORKSPACE ?? '/', 'continue')].find(candidate => fs.existsSync(candidate));
+  if (!foundPath) {
+    return null;
+  }
+
+  let content = '';
+  try {
+    content = fs.readFileSync(foundPath, 'utf8');
+  } catch (error) {
+    core.debug(`Failed to read continue file ${foundPath}: ${error}`);
+  }
+  return parseContinueFile(content);
+}
+
+/**
+ * Act on the outcome requested through the continue file: put its note in the
+ * job summary, and fail the step if asked to.
+ */
+async function applySessionOutcome(outcome: SessionOutcome): Promise<void> {
+  if (outcome.result === 'success' && !outcome.message) {
+    return;
+  }
+
+  const description = describeSessionOutcome(outcome);
+  try {
+    await core.summary.addHeading('Upterm Session Outcome', 3).addRaw(description, true).write();
+  } catch (error) {
+    core.debug(`Failed to write session outcome to job summary: ${error}`);
+  }
+
+  if (outcome.result === 'failure') {
+    core.setFailed(description);
+  } else {
+    core.info(description);
+  }
 }
 
 function isTimeoutReached(): boolean {
@@ -684,26 +2029,44 @@ function logTimeoutMessage(): void {
   core.info('The session was automatically shut down to prevent unnecessary resource usage');
 }
 
-async function getSessionInfo(): Promise<{sshCommand: string} | null> {
+function isIdleTimeoutReached(): boolean {
+  // Only trust the flag when the idle watcher was actually started for this session
+  return core.getInput('idle-timeout-minutes') !== '' && fs.existsSync(getUptermDirs().idleFlag);
+}
+
+function logIdleTimeoutMessage(): void {
+  core.info('Upterm session ended - connected users were idle for longer than the specified idle-timeout-minutes');
+  core.info('The session was automatically shut down as if the continue file had been created');
+}
+
+function isMaxDurationReached(): boolean {
+  return core.getInput('max-session-minutes') !== '' && fs.existsSync(getUptermDirs().maxDurationFlag);
+}
+
+function logMaxDurationMessage(): void {
+  core.info('Upterm session reached the maximum duration specified by max-session-minutes');
+  core.info('The session was automatically shut down to prevent unnecessary resource usage');
+}
+
+async function getSessionInfo(): Promise<SessionInfo | null> {
   const socketPath = findUptermSocket();
   if (!socketPath) return null;
 
   try {
-    const output = await execShellCommand(`upterm session current --admin-socket "${socketPath}"`);
-    const sshMatch = output.match(/ssh\s+(\S+@\S+)/i);
-    if (sshMatch) {
-      const sshCommand = `ssh ${sshMatch[1]}`;
-      return {sshCommand};
-    }
+    return await readSessionInfo(socketPath);
   } catch (error) {
     core.debug(`Failed to get session info: ${error}`);
   }
   return null;
 }
 
-async function runDetachedMode(): Promise<void> {
-  core.debug('Entering detached mode');
-
+/**
+ * Wait for the session information, then announce the SSH command as a notice
+ * and as the `ssh-command` output.
+ *
+ * @returns The notice, to be repeated while waiting for the session to end
+ */
+async function announceSession(): Promise<string> {
   let sessionInfo = await getSessionInfo();
   for (let i = 0; !sessionInfo && i < 12; i++) {
     await sleep(SESSION_STATUS_POLL_INTERVAL);
@@ -713,16 +2076,25 @@ async function runDetachedMode(): Promise<void> {
     throw new Error('Failed to get upterm session information');
   }
 
-  const message = `::notice::SSH: ${sessionInfo.sshCommand}\n`;
+  const sshCommand = publishSshCommand(sessionInfo.sshCommand);
+  const message = isSshCommandEncrypted() ? `::notice::${SSH_COMMAND_DECRYPT_HINT}\n${sshCommand}\n` : `::notice::SSH: ${sshCommand}\n`;
 
   // Set outputs for other workflow steps to use
-  core.setOutput('ssh-command', sessionInfo.sshCommand);
+  core.setOutput('ssh-command', sshCommand);
+
+  console.log(message);
+  return message;
+}
+
+async function runDetachedMode(): Promise<void> {
+  core.debug('Entering detached mode');
+
+  const message = await announceSession();
 
   // Save state for the POST action
   core.saveState('message', message);
   core.saveState('socketPath', findUptermSocket() || '');
 
-  console.log(message);
   core.info('Detached mode: workflow will continue while upterm session is active');
 }
 
@@ -737,6 +2109,19 @@ async function hasAnyoneConnectedYet(): Promise<boolean> {
 }
 
 async function runPost(): Promise<void> {
+  try {
+    await runPostSession();
+  } finally {
+    cleanupUptermFiles();
+  }
+}
+
+async function runPostSession(): Promise<void> {
+  if (core.getState('mode') === 'on-failure') {
+    await runOnFailurePost();
+    return;
+  }
+
   const message = core.getState('message');
   const socketPath = core.getState('socketPath');
 
@@ -745,6 +2130,75 @@ async function runPost(): Promise<void> {
     return;
   }
 
+  await waitForSessionEnd(message);
+}
+
+/**
+ * Remove what the Action wrote under the upterm data directory: the SSH keys,
+ * which are shredded first, known_hosts and authorized_keys, the tmux config,
+ * sockets, logs and flag files. Only the audit log and the session recording
+ * are kept, which the audit-log and recording-path outputs point to. Runs at
+ * the end of every POST action, whether or not the session was detached.
+ */
+function cleanupUptermFiles(): void {
+  const dirs = getUptermDirs();
+  if (!fs.existsSync(dirs.base)) {
+    return;
+  }
+
+  const keep = [dirs.auditLog, dirs.recording.cast];
+  try {
+    shredDirectory(dirs.ssh);
+    for (const entry of fs.readdirSync(dirs.base)) {
+      const entryPath = path.join(dirs.base, entry);
+      if (!keep.includes(entryPath)) {
+        fs.rmSync(entryPath, {recursive: true, force: true});
+      }
+    }
+    core.debug(`Removed the session files under ${dirs.base}`);
+  } catch (error) {
+    core.warning(`Failed to remove the session files under ${dirs.base}: ${error}`);
+  }
+}
+
+/**
+ * POST action for `mode: on-failure`: start a session only if an earlier step
+ * of the job failed, then wait for it like the POST action of detached mode.
+ */
+async function runOnFailurePost(): Promise<void> {
+  const runnerName = process.env.RUNNER_NAME || '';
+  const octokit = github.getOctokit(core.getInput('github-token'));
+  const failedSteps = await getFailedSteps(octokit, {
+    ...github.context.repo,
+    runId: github.context.runId,
+    runAttempt: github.context.runAttempt,
+    runnerName
+  });
+
+  if (failedSteps === null) {
+    core.warning(`Could not find the current job (runner "${runnerName}") in workflow run ${github.context.runId}; not starting a debugging session`);
+    return;
+  }
+  if (failedSteps.length === 0) {
+    core.info('No earlier step failed - not starting a debugging session');
+    return;
+  }
+
+  core.info(`Starting a debugging session because these step(s) failed: ${failedSteps.join(', ')}`);
+  const allowedUsers = await getAllowedUsers();
+  await installDependencies();
+  await setupSSH();
+  await startUptermSession(allowedUsers);
+
+  const message = await announceSession();
+  await waitForSessionEnd(message);
+}
+
+/**
+ * Wait in the POST action until the session ends, then tear it down and
+ * report on it.
+ */
+async function waitForSessionEnd(message: string): Promise<void> {
   const shutdown = async () => {
     core.error('Got signal');
     try {
@@ -752,6 +2206,7 @@ async function runPost(): Promise<void> {
     } catch {
       // Ignore errors during shutdown
     }
+    cleanupUptermFiles();
     process.exit(1);
   };
 
@@ -767,20 +2222,46 @@ async function runPost(): Promise<void> {
   }
 
   let anyoneConnected = false;
+  const timeline = createSessionTimeline();
+  let lastSessionInfo: SessionInfo | null = null;
+  let outcome: SessionOutcome | null = null;
+  // Only changes if the loop ends before the wait timeout
+  let endReason: SessionEndReason = 'wait-timeout';
 
   for (let seconds = waitTimeoutSeconds; seconds > 0; ) {
     const connected = await hasAnyoneConnectedYet();
     if (connected) anyoneConnected = true;
 
+    const sessionInfo = await getSessionInfo();
+    if (sessionInfo) {
+      trackConnectedClients(timeline, sessionInfo);
+      lastSessionInfo = sessionInfo;
+    }
+
     console.log(`${anyoneConnected ? 'Waiting for session to end' : `Waiting for client to connect (at most ${seconds} more second(s))`}\n${message}`);
 
-    if (continueFileExists()) {
+    outcome = readContinueFile();
+    if (outcome) {
       core.info("Exiting debugging session because '/continue' file was created");
+      endReason = 'continue';
+      break;
+    }
+
+    if (isIdleTimeoutReached()) {
+      logIdleTimeoutMessage();
+      endReason = 'idle-timeout';
+      break;
+    }
+
+    if (isMaxDurationReached()) {
+      logMaxDurationMessage();
+      endReason = 'max-session-minutes';
       break;
     }
 
     if (!uptermSocketExists()) {
       core.info("Exiting debugging session: 'upterm' quit");
+      endReason = 'upterm-exited';
       break;
     }
 
@@ -788,10 +2269,21 @@ async function runPost(): Promise<void> {
     if (!anyoneConnected) seconds -= 5;
   }
 
+  await stopSessionWatcher(getUptermDirs().idleWatcherPid);
+  await stopSessionWatcher(getUptermDirs().maxDurationWatcherPid);
+  await reportSessionTimeline(timeline, lastSessionInfo);
+
   // Clean up
   try {
     await execShellCommand('tmux kill-server 2>/dev/null || true');
   } catch {
     // Ignore cleanup errors
   }
+
+  await finalizeSessionRecording();
+  await notifyWebhook('session-ended', lastSessionInfo ? publishSshCommand(lastSessionInfo.sshCommand) : '', {reason: endReason});
+  await endSessionComment(endReason);
+  if (outcome) {
+    await applySessionOutcome(outcome);
+  }
 }
@@ -0,0 +1,65 @@
+import {Octokit} from './access';
+import {getCurrentJobName, getFailedSteps} from './job';
+
+const currentJob = {owner: 'test-owner', repo: 'test-repo', runId: 1234, runAttempt: 2, runnerName: 'GitHub Actions 7'};
+
+function createOctokit(paginate: jest.Mock): Octokit {
+  return {
+    paginate,
+    rest: {
+      actions: {
+        listJobsForWorkflowRunAttempt: jest.fn()
+      }
+    }
+  } as unknown as Octokit;
+}
+
+describe('getFailedSteps', () => {
+  it('should return the failed steps of the in-progress job on this runner', async () => {
+    const paginate = jest.fn().mockResolvedValue([
+      {runner_name: 'GitHub Actions 7', status: 'completed', steps: [{name: 'Earlier attempt', conclusion: 'failure'}]},
+      {runner_name: 'GitHub Actions 3', status: 'in_progress', steps: [{name: 'Other job', conclusion: 'failure'}]},
+      {
+        runner_name: 'GitHub Actions 7',
+        status: 'in_progress',
+        steps: [
+          {name: 'Checkout', conclusion: 'success'},
+          {name: 'Run tests', conclusion: 'failure'},
+          {name: 'Upload', conclusion: 'skipped'},
+          {name: 'Post Setup upterm session', conclusion: null}
+        ]
+      }
+    ]);
+    const octokit = createOctokit(paginate);
+
+    await expect(getFailedSteps(octokit, currentJob)).resolves.toEqual(['Run tests']);
+    expect(paginate).toHaveBeenCalledWith(octokit.rest.actions.listJobsForWorkflowRunAttempt, {owner: 'test-owner', repo: 'test-repo', run_id: 1234, attempt_number: 2, per_page: 100});
+  });
+
+  it('should return null when the current job is not listed', async () => {
+    const octokit = createOctokit(jest.fn().mockResolvedValue([{runner_name: 'GitHub Actions 3', status: 'in_progress', steps: []}]));
+    await expect(getFailedSteps(octokit, currentJob)).resolves.toBeNull();
+  });
+
+  it('should explain API errors', async () => {
+    const octokit = createOctokit(jest.fn().mockRejectedValue(new Error('Resource not accessible by integration')));
+    await expect(getFailedSteps(octokit, currentJob)).rejects.toThrow('Failed to list the jobs of workflow run 1234: Error: Resource not accessible by integration (the github-token needs the actions: read permission)');
+  });
+});
+
+describe('getCurrentJobName', () => {
+  it('should return the name of the in-progress job on this runner', async () => {
+    const octokit = createOctokit(
+      jest.fn().mockResolvedValue([
+        {name: 'build (ubuntu-latest, 18)', runner_name: 'GitHub Actions 3', status: 'in_progress', steps: []},
+        {name: 'build (ubuntu-latest, 20)', runner_name: 'GitHub Actions 7', status: 'in_progress', steps: []}
+      ])
+    );
+    await expect(getCurrentJobName(octokit, currentJob)).resolves.toBe('build (ubuntu-latest, 20)');
+  });
+
+  it('should return null when the current job is not listed', async () => {
+    const octokit = createOctokit(jest.fn().mockResolvedValue([]));
+    await expect(getCurrentJobName(octokit, currentJob)).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,57 @@
+import {Octokit} from './access';
+
+/**
+ * Identifies the job this Action runs in.
+ *
+ * The workflow run API does not expose the job id to the job itself, so the
+ * job is found as the in-progress job of this run attempt on this runner.
+ */
+export interface CurrentJob {
+  owner: string;
+  repo: string;
+  runId: number;
+  runAttempt: number;
+  runnerName: string;
+}
+
+async function findCurrentJob(octokit: Octokit, job: CurrentJob) {
+  let jobs;
+  try {
+    jobs = await octokit.paginate(octokit.rest.actions.listJobsForWorkflowRunAttempt, {
+      owner: job.owner,
+      repo: job.repo,
+      run_id: job.runId,
+      attempt_number: job.runAttempt,
+      per_page: 100
+    });
+  } catch (error) {
+    throw new Error(`Failed to list the jobs of workflow run ${job.runId}: ${error} (the github-token needs the actions: read permission)`);
+  }
+  return jobs.find(candidate => candidate.runner_name === job.runnerName && candidate.status === 'in_progress');
+}
+
+/**
+ * List the steps of the current job that have failed so far.
+ *
+ * @returns Names of the failed steps, or null if the current job cannot be found
+ * @throws Error if the jobs of the workflow run cannot be listed
+ */
+export async function getFailedSteps(octokit: Octokit, job: CurrentJob): Promise<string[] | null> {
+  const currentJob = await findCurrentJob(octokit, job);
+  if (!currentJob) {
+    return null;
+  }
+  return (currentJob.steps ?? []).filter(step => step.conclusion === 'failure').map(step => step.name);
+}
+
+/**
+ * Get the name of the current job as the workflow run shows it, which tells
+ * the legs of a matrix apart, e.g. `build (ubuntu-latest, 20)`.
+ *
+ * @returns The job name, or null if the current job cannot be found
+ * @throws Error if the jobs of the workflow run cannot be listed
+ */
+export async function getCurrentJobName(octokit: Octokit, job: CurrentJob): Promise<string | null> {
+  const currentJob = await findCurrentJob(octokit, job);
+  return currentJob ? currentJob.name : null;
+}
@@ -0,0 +1,110 @@
+import http from 'http';
+import {AddressInfo} from 'net';
+import {WebhookPayload, renderWebhookBody, sendWebhook, signWebhookBody} from './notify';
+
+const payload: WebhookPayload = {
+  event: 'session-ready',
+  text: 'Upterm session ready for test-owner/test-repo (CI / build): ssh "id"@uptermd.upterm.dev',
+  timestamp: '2026-01-01T00:00:00.000Z',
+  repository: 'test-owner/test-repo',
+  workflow: 'CI',
+  job: 'build',
+  actor: 'octocat',
+  runUrl: 'https://github.com/test-owner/test-repo/actions/runs/1234',
+  sshCommand: 'ssh "id"@uptermd.upterm.dev',
+  expiresAt: null,
+  reason: null
+};
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+/**
+ * Local stand-in for a webhook endpoint. Each request is answered by the next
+ * handler; the last handler answers all remaining requests.
+ */
+async function startServer(handlers: ((res: http.ServerResponse) => void)[]): Promise<{url: string; requests: ReceivedRequest[]; close: () => Promise<void>}> {
+  const requests: ReceivedRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      requests.push({headers: req.headers, body});
+      handlers[Math.min(requests.length, handlers.length) - 1](res);
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const {port} = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}/hook`,
+    requests,
+    close: () =>
+      new Promise<void>(resolve => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      })
+  };
+}
+
+const respond = (status: number) => (res: http.ServerResponse) => res.writeHead(status).end();
+
+describe('renderWebhookBody', () => {
+  it('should send the payload as JSON by default', () => {
+    expect(JSON.parse(renderWebhookBody(payload))).toEqual(payload);
+  });
+
+  it('should fill template placeholders with JSON-escaped values', () => {
+    const body = renderWebhookBody(payload, '{"text": "{{ repository }}: {{sshCommand}}{{unknown}}", "expires": "{{expiresAt}}"}');
+    expect(JSON.parse(body)).toEqual({text: 'test-owner/test-repo: ssh "id"@uptermd.upterm.dev', expires: ''});
+  });
+});
+
+describe('sendWebhook', () => {
+  it('should POST the payload with an HMAC signature', async () => {
+    const server = await startServer([respond(204)]);
+    try {
+      await sendWebhook(payload, {url: server.url, secret: 's3cret'});
+
+      expect(server.requests).toHaveLength(1);
+      const [request] = server.requests;
+      expect(JSON.parse(request.body)).toEqual(payload);
+      expect(request.headers['content-type']).toBe('application/json');
+      expect(request.headers['x-upterm-signature-256']).toBe(signWebhookBody(request.body, 's3cret'));
+      expect(signWebhookBody('{}', 's3cret')).toMatch(/^sha256=[0-9a-f]{64}$/);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('should retry server errors', async () => {
+    const server = await startServer([respond(502), respond(429), respond(200)]);
+    try {
+      await sendWebhook(payload, {url: server.url, retryDelayMs: 1});
+      expect(server.requests).toHaveLength(3);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('should not retry client errors', async () => {
+    const server = await startServer([respond(404)]);
+    try {
+      await expect(sendWebhook(payload, {url: server.url, retryDelayMs: 1})).rejects.toThrow('Webhook session-ready notification failed: HTTP 404 Not Found');
+      expect(server.requests).toHaveLength(1);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('should give up on endpoints that do not answer in time', async () => {
+    const server = await startServer([() => undefined]);
+    try {
+      await expect(sendWebhook(payload, {url: server.url, attempts: 2, timeoutMs: 100, retryDelayMs: 1})).rejects.toThrow('Webhook session-ready notification failed');
+      expect(server.requests).toHaveLength(2);
+    } finally {
+      await server.close();
+    }
+  });
+});
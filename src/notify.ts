@@ -0,0 +1,103 @@
+import crypto from 'crypto';
+import {sleep} from './helpers';
+
+export type WebhookEvent = 'session-ready' | 'session-ended';
+
+/**
+ * JSON payload POSTed to `notify-webhook-url`.
+ *
+ * `text` is a one-line summary so that Slack-compatible endpoints can display
+ * the payload as-is.
+ */
+export interface WebhookPayload {
+  event: WebhookEvent;
+  text: string;
+  timestamp: string;
+  repository: string;
+  workflow: string;
+  job: string;
+  actor: string;
+  runUrl: string;
+  sshCommand: string;
+  // When max-session-minutes will end the session (session-ready only)
+  expiresAt: string | null;
+  // Why the session ended (session-ended only)
+  reason: string | null;
+}
+
+export interface WebhookOptions {
+  url: string;
+  // Request body with {{field}} placeholders for payload fields, replacing the default JSON payload
+  template?: string;
+  // Secret for the X-Upterm-Signature-256 HMAC header
+  secret?: string;
+  attempts?: number;
+  timeoutMs?: number;
+  retryDelayMs?: number;
+}
+
+const DEFAULT_ATTEMPTS = 3;
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_RETRY_DELAY_MS = 2000;
+const TEMPLATE_PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Render the request body: the payload as JSON, or the template with its
+ * `{{field}}` placeholders replaced by payload fields. Values are escaped for
+ * use inside JSON strings, and unknown fields render as empty strings.
+ */
+export function renderWebhookBody(payload: WebhookPayload, template?: string): string {
+  if (!template) {
+    return JSON.stringify(payload);
+  }
+  const fields = payload as unknown as Record<string, string | null>;
+  return template.replace(TEMPLATE_PLACEHOLDER_PATTERN, (_, name: string) => JSON.stringify(fields[name] ?? '').slice(1, -1));
+}
+
+/**
+ * Compute the `X-Upterm-Signature-256` header value for a request body.
+ */
+export function signWebhookBody(body: string, secret: string): string {
+  return `sha256=${crypto.createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+function isRetryable(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * POST the payload to the webhook.
+ *
+ * Network errors, timeouts, 429 and 5xx responses are retried; every attempt
+ * is bounded by a timeout so that a slow endpoint cannot hang the job.
+ *
+ * @throws Error if the webhook did not accept the payload
+ */
+export async function sendWebhook(payload: WebhookPayload, options: WebhookOptions): Promise<void> {
+  const body = renderWebhookBody(payload, options.template);
+  const headers: Record<string, string> = {'Content-Type': 'application/json', 'User-Agent': 'action-upterm'};
+  if (options.secret) {
+    headers['X-Upterm-Signature-256'] = signWebhookBody(body, options.secret);
+  }
+
+  const attempts = options.attempts ?? DEFAULT_ATTEMPTS;
+  let lastError = '';
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    try {
+      const response = await fetch(options.url, {method: 'POST', headers, body, signal: AbortSignal.timeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS)});
+      if (response.ok) {
+        return;
+      }
+      lastError = `HTTP ${response.status} ${response.statusText}`;
+      if (!isRetryable(response.status)) {
+        break;
+      }
+    } catch (error) {
+      lastError = String(error);
+    }
+    if (attempt < attempts) {
+      await sleep((options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS) * attempt);
+    }
+  }
+  throw new Error(`Webhook ${payload.event} notification failed: ${lastError}`);
+}
@@ -0,0 +1,34 @@
+import {describeSessionOutcome, parseContinueFile} from './outcome';
+
+describe('parseContinueFile', () => {
+  it('should let the step pass for an empty continue file', () => {
+    expect(parseContinueFile('')).toEqual({result: 'success', exitCode: 0, message: ''});
+    expect(parseContinueFile('\n')).toEqual({result: 'success', exitCode: 0, message: ''});
+  });
+
+  it('should recognise outcome keywords and keep the note', () => {
+    expect(parseContinueFile('fail The build really is broken\nlibfoo 2.0 changed its ABI\n')).toEqual({
+      result: 'failure',
+      exitCode: 1,
+      message: 'The build really is broken\nlibfoo 2.0 changed its ABI'
+    });
+    expect(parseContinueFile('FAILURE')).toEqual({result: 'failure', exitCode: 1, message: ''});
+    expect(parseContinueFile('success fixed the runner manually\r\n')).toEqual({result: 'success', exitCode: 0, message: 'fixed the runner manually'});
+  });
+
+  it('should accept exit codes', () => {
+    expect(parseContinueFile('3 flaky test reproduced')).toEqual({result: 'failure', exitCode: 3, message: 'flaky test reproduced'});
+    expect(parseContinueFile('0')).toEqual({result: 'success', exitCode: 0, message: ''});
+  });
+
+  it('should treat other contents as a note', () => {
+    expect(parseContinueFile('all good, it was a flaky network')).toEqual({result: 'success', exitCode: 0, message: 'all good, it was a flaky network'});
+  });
+});
+
+describe('describeSessionOutcome', () => {
+  it('should describe the outcome with its note', () => {
+    expect(describeSessionOutcome({result: 'failure', exitCode: 2, message: 'broken'})).toBe('Debugging session marked the step as failed (exit code 2): broken');
+    expect(describeSessionOutcome({result: 'success', exitCode: 0, message: ''})).toBe('Debugging session marked the step as successful');
+  });
+});
@@ -0,0 +1,51 @@
+// Outcome requested through the continue file.
+//
+// The continue file may be empty, which ends the session and lets the step
+// pass as before. Otherwise its first word chooses the outcome and anything
+// after it is a free-form note for the job summary:
+//
+//   fail The build really is broken: libfoo 2.0 changed its ABI
+//   3 Flaky test reproduced, see notes in /tmp/notes.txt
+//   success Runner was misconfigured, fixed manually
+//
+// A first word that is neither a keyword nor an exit code is treated as part
+// of the note, and the step passes.
+
+const FAILURE_KEYWORDS = ['fail', 'failure', 'failed'];
+const SUCCESS_KEYWORDS = ['success', 'succeed', 'pass', 'passed'];
+
+export interface SessionOutcome {
+  result: 'success' | 'failure';
+  exitCode: number;
+  message: string;
+}
+
+/**
+ * Parse the contents of the continue file.
+ */
+export function parseContinueFile(content: string): SessionOutcome {
+  const text = content.trim();
+  const [word = ''] = text.split(/\s/, 1);
+  const rest = text.slice(word.length).trim();
+  const keyword = word.toLowerCase();
+
+  if (FAILURE_KEYWORDS.includes(keyword)) {
+    return {result: 'failure', exitCode: 1, message: rest};
+  }
+  if (SUCCESS_KEYWORDS.includes(keyword)) {
+    return {result: 'success', exitCode: 0, message: rest};
+  }
+  if (/^\d+$/.test(word)) {
+    const exitCode = parseInt(word, 10);
+    return {result: exitCode === 0 ? 'success' : 'failure', exitCode, message: rest};
+  }
+  return {result: 'success', exitCode: 0, message: text};
+}
+
+/**
+ * One-line description of the outcome for the log and job summary.
+ */
+export function describeSessionOutcome(outcome: SessionOutcome): string {
+  const description = outcome.result === 'failure' ? `Debugging session marked the step as failed (exit code ${outcome.exitCode})` : 'Debugging session marked the step as successful';
+  return outcome.message ? `${description}: ${outcome.message}` : description;
+}
@@ -0,0 +1,44 @@
+import {buildRawRecordingHeader, buildRecorderCommand, convertToAsciicast} from './recording';
+
+function frame(time: number, data: Buffer): Buffer {
+  return Buffer.concat([Buffer.from(`${time.toFixed(6)} ${data.length}\n`), data]);
+}
+
+describe('session recording', () => {
+  const startedAt = new Date('2026-01-01T00:00:00.000Z');
+  const start = startedAt.getTime() / 1000;
+
+  it('should build a recorder command that appends to the raw file', () => {
+    const command = buildRecorderCommand("'/tmp/upterm-data/state/session-recording.raw'");
+    expect(command).toMatch(/^exec perl -MTime::HiRes=time -e '.*sysread.*' >> '\/tmp\/upterm-data\/state\/session-recording.raw'$/);
+  });
+
+  it('should convert a raw recording into asciicast v2', () => {
+    const raw = Buffer.concat([Buffer.from(buildRawRecordingHeader(startedAt)), frame(start + 0.5, Buffer.from('$ ls\r\n')), frame(start + 1.25, Buffer.from('README.md\r\n'))]);
+
+    const lines = convertToAsciicast(raw, {width: 132, height: 43, title: 'owner/repo run 1'})
+      .trimEnd()
+      .split('\n')
+      .map(line => JSON.parse(line));
+
+    expect(lines).toEqual([{version: 2, width: 132, height: 43, timestamp: start, env: {TERM: 'xterm-256color'}, title: 'owner/repo run 1'}, [0.5, 'o', '$ ls\r\n'], [1.25, 'o', 'README.md\r\n']]);
+  });
+
+  it('should decode UTF-8 sequences split across chunks', () => {
+    const bytes = Buffer.from('é');
+    const raw = Buffer.concat([Buffer.from(buildRawRecordingHeader(startedAt)), frame(start + 1, bytes.subarray(0, 1)), frame(start + 2, bytes.subarray(1))]);
+
+    const events = convertToAsciicast(raw, {width: 80, height: 24}).trimEnd().split('\n').slice(1);
+    expect(events.map(line => JSON.parse(line))).toEqual([[2, 'o', 'é']]);
+  });
+
+  it('should keep a truncated trailing chunk', () => {
+    const raw = Buffer.concat([Buffer.from(buildRawRecordingHeader(startedAt)), Buffer.from(`${(start + 1).toFixed(6)} 10\nhello`)]);
+    const events = convertToAsciicast(raw, {width: 80, height: 24}).trimEnd().split('\n').slice(1);
+    expect(events.map(line => JSON.parse(line))).toEqual([[1, 'o', 'hello']]);
+  });
+
+  it('should reject recordings without a header', () => {
+    expect(() => convertToAsciicast(Buffer.from('garbage'), {width: 80, height: 24})).toThrow('Invalid session recording: missing header');
+  });
+});
@@ -0,0 +1,92 @@
+// Session recording support.
+//
+// While the session runs, `tmux pipe-pane` streams everything shown in the
+// inner session through a tiny perl filter that prefixes each chunk with a
+// timestamp and its length. perl ships with every runner image we support
+// (including MSYS2 on Windows), so no extra tooling has to be installed.
+// When the session ends, the raw stream is converted into an asciicast v2
+// file (https://docs.asciinema.org/manual/asciicast/v2/).
+
+const RAW_HEADER_PREFIX = 'UPTERM-RECORDING';
+const RAW_HEADER_PATTERN = new RegExp(`^${RAW_HEADER_PREFIX} (\\d+(?:\\.\\d+)?)$`);
+const RAW_FRAME_PATTERN = /^(\d+(?:\.\d+)?) (\d+)$/;
+
+/**
+ * Shell command for `tmux pipe-pane` that appends timed output chunks to
+ * the raw recording file.
+ *
+ * Each chunk is written as `<epoch seconds> <byte length>\n<bytes>`.
+ *
+ * @param rawPathShell - Raw recording path, already shell-escaped
+ */
+export function buildRecorderCommand(rawPathShell: string): string {
+  const perlScript = 'binmode STDIN; binmode STDOUT; $| = 1; while (my $n = sysread(STDIN, my $buf, 65536)) { printf "%.6f %d\\n", time, $n; print $buf }';
+  return `exec perl -MTime::HiRes=time -e '${perlScript}' >> ${rawPathShell}`;
+}
+
+/**
+ * First line of a raw recording file, holding the recording start time.
+ */
+export function buildRawRecordingHeader(startedAt: Date): string {
+  return `${RAW_HEADER_PREFIX} ${(startedAt.getTime() / 1000).toFixed(6)}\n`;
+}
+
+export interface AsciicastOptions {
+  width: number;
+  height: number;
+  title?: string;
+}
+
+/**
+ * Convert a raw recording into an asciicast v2 document.
+ *
+ * Incomplete trailing chunks (e.g. when the recorder was killed mid-write)
+ * are kept as far as they go; bytes that split a UTF-8 sequence across chunk
+ * boundaries are decoded correctly.
+ *
+ * @param raw - Contents of the raw recording file
+ * @param options - Terminal dimensions and optional title for the header
+ * @returns asciicast v2 file contents (newline-delimited JSON)
+ * @throws Error if the raw recording has no valid header
+ */
+export function convertToAsciicast(raw: Buffer, options: AsciicastOptions): string {
+  const headerEnd = raw.indexOf(0x0a);
+  const headerLine = headerEnd >= 0 ? raw.subarray(0, headerEnd).toString('utf8') : '';
+  const headerMatch = headerLine.match(RAW_HEADER_PATTERN);
+  if (!headerMatch) {
+    throw new Error('Invalid session recording: missing header');
+  }
+  const startedAt = parseFloat(headerMatch[1]);
+
+  const header: Record<string, unknown> = {
+    version: 2,
+    width: options.width,
+    height: options.height,
+    timestamp: Math.floor(startedAt),
+    env: {TERM: 'xterm-256color'}
+  };
+  if (options.title) {
+    header.title = options.title;
+  }
+  const lines = [JSON.stringify(header)];
+
+  const decoder = new TextDecoder('utf-8');
+  let offset = headerEnd + 1;
+  while (offset < raw.length) {
+    const lineEnd = raw.indexOf(0x0a, offset);
+    if (lineEnd < 0) break;
+    const frame = raw.subarray(offset, lineEnd).toString('utf8').match(RAW_FRAME_PATTERN);
+    if (!frame) break;
+
+    const dataStart = lineEnd + 1;
+    const dataEnd = Math.min(dataStart + parseInt(frame[2], 10), raw.length);
+    const text = decoder.decode(raw.subarray(dataStart, dataEnd), {stream: true});
+    if (text) {
+      const elapsed = Math.max(0, parseFloat(frame[1]) - startedAt);
+      lines.push(JSON.stringify([Number(elapsed.toFixed(6)), 'o', text]));
+    }
+    offset = dataEnd;
+  }
+
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,84 @@
+import http from 'http';
+import {AddressInfo} from 'net';
+import {listReleaseTags, resolveLatestRelease, resolveVersionRange} from './releases';
+import {Octokit} from './access';
+
+/**
+ * Local stand-in for a GitHub releases page that answers every request with
+ * the given status and Location header.
+ */
+async function startServer(status: number, location?: string): Promise<{url: string; paths: string[]; close: () => Promise<void>}> {
+  const paths: string[] = [];
+  const server = http.createServer((req, res) => {
+    paths.push(`${req.method} ${req.url}`);
+    res.writeHead(status, location ? {Location: location} : {});
+    res.end();
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const {port} = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}/owenthereal/upterm/releases`,
+    paths,
+    close: async () => new Promise<void>(resolve => server.close(() => resolve()))
+  };
+}
+
+describe('resolveLatestRelease', () => {
+  it('returns the tag that /latest redirects to', async () => {
+    const server = await startServer(302, 'https://github.com/owenthereal/upterm/releases/tag/v0.21.0');
+    try {
+      await expect(resolveLatestRelease(server.url)).resolves.toBe('v0.21.0');
+      expect(server.paths).toEqual(['HEAD /owenthereal/upterm/releases/latest']);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('rejects responses that do not redirect to a release tag', async () => {
+    const server = await startServer(200);
+    try {
+      await expect(resolveLatestRelease(server.url)).rejects.toThrow(`${server.url}/latest did not redirect to a release tag (HTTP 200)`);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('rejects redirects elsewhere', async () => {
+    const server = await startServer(302, 'https://github.com/login');
+    try {
+      await expect(resolveLatestRelease(server.url)).rejects.toThrow('did not redirect to a release tag (HTTP 302)');
+    } finally {
+      await server.close();
+    }
+  });
+});
+
+describe('listReleaseTags', () => {
+  it('lists published releases without drafts and prereleases', async () => {
+    const paginate = jest.fn(async () => [
+      {tag_name: 'v0.21.0-rc.1', draft: false, prerelease: true},
+      {tag_name: 'v0.20.1', draft: false, prerelease: false},
+      {tag_name: 'v0.20.2', draft: true, prerelease: false},
+      {tag_name: 'v0.19.1', draft: false, prerelease: false}
+    ]);
+    const listReleases = jest.fn();
+    const octokit = {paginate, rest: {repos: {listReleases}}} as unknown as Octokit;
+
+    await expect(listReleaseTags(octokit, {owner: 'owenthereal', repo: 'upterm'})).resolves.toEqual(['v0.20.1', 'v0.19.1']);
+    expect(paginate).toHaveBeenCalledWith(listReleases, {owner: 'owenthereal', repo: 'upterm', per_page: 100});
+  });
+});
+
+describe('resolveVersionRange', () => {
+  const tags = ['v0.21.0', 'v0.20.1', 'v0.20.0', 'v0.19.2', 'v0.19.1', 'nightly'];
+
+  it('picks the newest release in the range', () => {
+    expect(resolveVersionRange(tags, '^0.20')).toBe('v0.20.1');
+    expect(resolveVersionRange(tags, '~0.19.1')).toBe('v0.19.2');
+    expect(resolveVersionRange(tags, '>=0.19')).toBe('v0.21.0');
+  });
+
+  it('returns null if no release is in the range', () => {
+    expect(resolveVersionRange(tags, '^1.0')).toBeNull();
+  });
+});
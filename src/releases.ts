@@ -0,0 +1,50 @@
+import * as tc from '@actions/tool-cache';
+import {Octokit} from './access';
+
+export const UPTERM_REPOSITORY = {owner: 'owenthereal', repo: 'upterm'};
+
+// upterm is released on github.com, also when the Action runs on GitHub Enterprise Server
+export const UPTERM_REPOSITORY_API_URL = 'https://api.github.com';
+
+const RELEASE_TAG_PATTERN = /\/releases\/tag\/([^/?#]+)$/;
+const DEFAULT_TIMEOUT_MS = 10000;
+
+/**
+ * Resolve the tag of the latest release of a GitHub repository.
+ *
+ * Uses the redirect of `<releases URL>/latest` to `<releases URL>/tag/<tag>`,
+ * which, unlike the REST API, needs no token and is not rate limited.
+ *
+ * @param releasesUrl - e.g. `https://github.com/owenthereal/upterm/releases`
+ * @returns The tag of the latest release, e.g. `v0.20.0`
+ * @throws Error if the request fails or does not redirect to a release tag
+ */
+export async function resolveLatestRelease(releasesUrl: string, timeoutMs = DEFAULT_TIMEOUT_MS): Promise<string> {
+  const latestUrl = `${releasesUrl}/latest`;
+  const response = await fetch(latestUrl, {method: 'HEAD', redirect: 'manual', signal: AbortSignal.timeout(timeoutMs)});
+  const match = (response.headers.get('location') ?? '').match(RELEASE_TAG_PATTERN);
+  if (!match) {
+    throw new Error(`${latestUrl} did not redirect to a release tag (HTTP ${response.status})`);
+  }
+  return decodeURIComponent(match[1]);
+}
+
+/**
+ * List the tags of the published, non-prerelease releases of a repository.
+ */
+export async function listReleaseTags(octokit: Octokit, repository: {owner: string; repo: string}): Promise<string[]> {
+  const releases = await octokit.paginate(octokit.rest.repos.listReleases, {...repository, per_page: 100});
+  return releases.filter(release => !release.draft && !release.prerelease).map(release => release.tag_name);
+}
+
+/**
+ * Pick the newest release tag that satisfies a semver range such as `^0.20`
+ * or `~0.19.1`.
+ *
+ * @returns The tag, e.g. `v0.20.1`, or null if no release satisfies the range
+ */
+export function resolveVersionRange(tags: string[], range: string): string | null {
+  const tagsByVersion = new Map(tags.filter(tag => tc.isExplicitVersion(tag)).map(tag => [tag.replace(/^v/, ''), tag]));
+  const version = tc.evaluateVersions([...tagsByVersion.keys()], range);
+  return tagsByVersion.get(version) ?? null;
+}
@@ -0,0 +1,48 @@
+import {parseUptermServer, parseUptermServers} from './server';
+
+describe('parseUptermServer', () => {
+  it('should fill in the default port of each protocol', () => {
+    expect(parseUptermServer('ssh://uptermd.upterm.dev')).toEqual({protocol: 'ssh', host: 'uptermd.upterm.dev', port: 22, url: 'ssh://uptermd.upterm.dev:22'});
+    expect(parseUptermServer('ws://upterm.example.com')).toEqual({protocol: 'ws', host: 'upterm.example.com', port: 80, url: 'ws://upterm.example.com:80'});
+    expect(parseUptermServer('wss://upterm.example.com')).toEqual({protocol: 'wss', host: 'upterm.example.com', port: 443, url: 'wss://upterm.example.com:443'});
+  });
+
+  it('should normalise case, whitespace and a trailing slash', () => {
+    expect(parseUptermServer(' SSH://Upterm.Example.com:2222/\n')).toEqual({protocol: 'ssh', host: 'upterm.example.com', port: 2222, url: 'ssh://upterm.example.com:2222'});
+  });
+
+  it('should accept IPv6 addresses', () => {
+    expect(parseUptermServer('ssh://[2001:db8::1]:2222')).toEqual({protocol: 'ssh', host: '2001:db8::1', port: 2222, url: 'ssh://[2001:db8::1]:2222'});
+  });
+
+  it('should ask for a protocol', () => {
+    expect(() => parseUptermServer('uptermd.upterm.dev:22')).toThrow('Invalid upterm-server "uptermd.upterm.dev:22": expected a URL starting with ssh://, ws://, wss://, e.g. ssh://uptermd.upterm.dev:22');
+    expect(() => parseUptermServer('uptermd.upterm.dev')).toThrow('e.g. ssh://uptermd.upterm.dev:22');
+  });
+
+  it('should reject other protocols and malformed URLs', () => {
+    expect(() => parseUptermServer('http://upterm.example.com')).toThrow('Invalid upterm-server "http://upterm.example.com": unsupported protocol http://, expected one of ssh://, ws://, wss://');
+    expect(() => parseUptermServer('ssh:/upterm.example.com')).toThrow('Invalid upterm-server "ssh:/upterm.example.com": expected "ssh://" followed by the host');
+    expect(() => parseUptermServer('ssh://')).toThrow('Invalid upterm-server "ssh://": missing host');
+    expect(() => parseUptermServer('ssh://git@upterm.example.com')).toThrow('the URL must not contain a user name');
+    expect(() => parseUptermServer('wss://upterm.example.com/ws?token=1')).toThrow('unexpected "/ws?token=1" after the host and port');
+    expect(() => parseUptermServer('ssh://upterm example.com')).toThrow('"upterm example.com" is not a valid host name');
+    expect(() => parseUptermServer('ssh://upterm.example.com:99999')).toThrow('"99999" is not a valid port');
+    expect(() => parseUptermServer('ssh://upterm.example.com:')).toThrow('"" is not a valid port');
+  });
+});
+
+describe('parseUptermServers', () => {
+  it('should keep the order of the servers and drop duplicates', () => {
+    expect(parseUptermServers('ssh://upterm.example.com:2222,\nssh://uptermd.upterm.dev wss://upterm.example.com ssh://uptermd.upterm.dev:22').map(server => server.url)).toEqual([
+      'ssh://upterm.example.com:2222',
+      'ssh://uptermd.upterm.dev:22',
+      'wss://upterm.example.com:443'
+    ]);
+    expect(parseUptermServers(' ')).toEqual([]);
+  });
+
+  it('should reject the list if any server is invalid', () => {
+    expect(() => parseUptermServers('ssh://uptermd.upterm.dev, upterm.example.com:22')).toThrow('Invalid upterm-server "upterm.example.com:22"');
+  });
+});
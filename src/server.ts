@@ -0,0 +1,95 @@
+/**
+ * Protocols `upterm host --server` accepts, with their default ports.
+ */
+export const UPTERM_SERVER_PORTS: Record<string, number> = {ssh: 22, ws: 80, wss: 443};
+
+/**
+ * A parsed upterm-server value.
+ */
+export interface UptermServer {
+  protocol: string;
+  // Without the brackets of an IPv6 address
+  host: string;
+  port: number;
+  // protocol://host:port, the value passed to upterm and shown to users
+  url: string;
+}
+
+const PROTOCOLS = Object.keys(UPTERM_SERVER_PORTS);
+const SCHEME_PATTERN = /^([A-Za-z][A-Za-z0-9+.-]*):(\/*)(.*)$/;
+const HOST_PATTERN = /^(?:\[[0-9A-Fa-f:.]+\]|[A-Za-z0-9](?:[A-Za-z0-9.-]*[A-Za-z0-9])?)$/;
+
+function invalid(value: string, problem: string): Error {
+  return new Error(`Invalid upterm-server "${value}": ${problem}`);
+}
+
+/**
+ * Parse and normalise an upterm-server value such as
+ * `ssh://uptermd.upterm.dev:22`, filling in the default port of the protocol.
+ *
+ * @throws Error saying what is wrong with the value
+ */
+export function parseUptermServer(value: string): UptermServer {
+  const trimmed = value.trim();
+  const protocols = PROTOCOLS.map(protocol => `${protocol}://`).join(', ');
+
+  const match = trimmed.match(SCHEME_PATTERN);
+  // A host:port value without a protocol looks like a protocol followed by a port
+  if (!match || (!PROTOCOLS.includes(match[1].toLowerCase()) && /^\d*$/.test(match[3]))) {
+    throw invalid(trimmed, `expected a URL starting with ${protocols}, e.g. ssh://${trimmed || 'uptermd.upterm.dev'}${/:\d+$/.test(trimmed) ? '' : ':22'}`);
+  }
+
+  const [, scheme, slashes, rest] = match;
+  const protocol = scheme.toLowerCase();
+  if (!PROTOCOLS.includes(protocol)) {
+    throw invalid(trimmed, `unsupported protocol ${scheme}://, expected one of ${protocols}`);
+  }
+  if (slashes !== '//') {
+    throw invalid(trimmed, `expected "${protocol}://" followed by the host`);
+  }
+
+  const address = rest.match(/^([^/?#]*)(.*)$/) as RegExpMatchArray;
+  if (address[2] && address[2] !== '/') {
+    throw invalid(trimmed, `unexpected "${address[2]}" after the host and port`);
+  }
+  if (address[1].includes('@')) {
+    throw invalid(trimmed, 'the URL must not contain a user name');
+  }
+
+  const hostPort = address[1].match(/^(\[[^\]]*\]|[^:]*)(?::(.*))?$/) as RegExpMatchArray;
+  const host = hostPort[1].toLowerCase();
+  if (!host) {
+    throw invalid(trimmed, 'missing host');
+  }
+  if (!HOST_PATTERN.test(host)) {
+    throw invalid(trimmed, `"${host}" is not a valid host name`);
+  }
+
+  let port = UPTERM_SERVER_PORTS[protocol];
+  if (hostPort[2] !== undefined) {
+    port = /^\d{1,5}$/.test(hostPort[2]) ? parseInt(hostPort[2], 10) : 0;
+    if (port < 1 || port > 65535) {
+      throw invalid(trimmed, `"${hostPort[2]}" is not a valid port`);
+    }
+  }
+
+  return {protocol, host: host.replace(/^\[(.*)\]$/, '$1'), port, url: `${protocol}://${host}:${port}`};
+}
+
+/**
+ * Parse an upterm-server value listing one or more servers, separated by
+ * whitespace or commas, in the order they should be tried.
+ *
+ * @returns The normalised servers, without duplicates
+ * @throws Error saying what is wrong with the first invalid entry
+ */
+export function parseUptermServers(value: string): UptermServer[] {
+  const servers = new Map<string, UptermServer>();
+  for (const entry of value.split(/[\s,]+/).filter(Boolean)) {
+    const server = parseUptermServer(entry);
+    if (!servers.has(server.url)) {
+      servers.set(server.url, server);
+    }
+  }
+  return [...servers.values()];
+}
@@ -0,0 +1,169 @@
+import {SessionClient, closeSessionTimeline, createSessionTimeline, describeSessionEvent, diffConnectedClients, formatSessionStatus, getSessionSecrets, parseSessionInfo, updateSessionTimeline} from './session';
+
+describe('parseSessionInfo', () => {
+  it('should parse the text output of upterm session current', () => {
+    const output = `
+=== IYPWJPVLIFTKRNOWOUUV
+Command:                tmux attach -t upterm
+Force Command:          tmux attach -t upterm
+Host:                   ssh://uptermd.upterm.dev:22
+Authorized Keys:
+  - SHA256:abc123 (octocat)
+  - SHA256:def456 (hubot)
+SSH Session:            ssh IYPWJPVLIFTKRNOWOUUV@uptermd.upterm.dev
+Connected Client(s):
+  - Addr: 203.0.113.7:51234
+    Client Version: SSH-2.0-OpenSSH_9.6
+    SSH Fingerprint: SHA256:abc123
+    User: octocat
+`;
+
+    expect(parseSessionInfo(output)).toEqual({
+      sessionId: 'IYPWJPVLIFTKRNOWOUUV',
+      host: 'ssh://uptermd.upterm.dev:22',
+      command: 'tmux attach -t upterm',
+      forceCommand: 'tmux attach -t upterm',
+      sshCommand: 'ssh IYPWJPVLIFTKRNOWOUUV@uptermd.upterm.dev',
+      authorizedKeys: ['SHA256:abc123 (octocat)', 'SHA256:def456 (hubot)'],
+      connectedClients: [{address: '203.0.113.7:51234', version: 'SSH-2.0-OpenSSH_9.6', fingerprint: 'SHA256:abc123', user: 'octocat'}]
+    });
+  });
+
+  it('should parse boxed output with decorations', () => {
+    const output = `
+╭──────────────────────────────────────────────╮
+│ Session: abc123                              │
+│ Command: bash                                │
+│ Force Command: n/a                           │
+│ Host: ssh://myserver:22                      │
+│ ➤ SSH Command: ssh abc123@myserver           │
+╰──────────────────────────────────────────────╯
+`;
+
+    const info = parseSessionInfo(output);
+    expect(info?.sessionId).toBe('abc123');
+    expect(info?.command).toBe('bash');
+    expect(info?.forceCommand).toBe('');
+    expect(info?.host).toBe('ssh://myserver:22');
+    expect(info?.sshCommand).toBe('ssh abc123@myserver');
+    expect(info?.connectedClients).toEqual([]);
+  });
+
+  it('should derive session id and host from a bare ssh command', () => {
+    expect(parseSessionInfo('ssh test@upterm.dev')).toEqual({
+      sessionId: 'test',
+      host: 'upterm.dev',
+      command: '',
+      forceCommand: '',
+      sshCommand: 'ssh test@upterm.dev',
+      authorizedKeys: [],
+      connectedClients: []
+    });
+  });
+
+  it('should keep the port of the SSH command', () => {
+    const info = parseSessionInfo('SSH Session:            ssh  -p 2222 IYPWJPVLIFTKRNOWOUUV:bXlzZXJ2ZXI6MjIyMg==@myserver');
+    expect(info?.sshCommand).toBe('ssh -p 2222 IYPWJPVLIFTKRNOWOUUV:bXlzZXJ2ZXI6MjIyMg==@myserver');
+    expect(info?.sessionId).toBe('IYPWJPVLIFTKRNOWOUUV');
+    expect(info?.host).toBe('myserver');
+    expect(parseSessionInfo(JSON.stringify({sshCommand: 'ssh -p 2222 xyz@myserver'}))?.sshCommand).toBe('ssh -p 2222 xyz@myserver');
+  });
+
+  it('should parse JSON output', () => {
+    const output = JSON.stringify({
+      sessionId: 'xyz',
+      host: 'wss://upterm.example.com',
+      command: ['tmux', 'new', '-s', 'upterm'],
+      forceCommand: ['tmux', 'attach', '-t', 'upterm'],
+      sshCommand: 'ssh xyz@upterm.example.com',
+      authorizedKeys: ['SHA256:abc'],
+      connectedClients: [{addr: '198.51.100.1:2222', clientVersion: 'SSH-2.0-PuTTY', publicKeyFingerprint: 'SHA256:abc'}]
+    });
+
+    expect(parseSessionInfo(output)).toEqual({
+      sessionId: 'xyz',
+      host: 'wss://upterm.example.com',
+      command: 'tmux new -s upterm',
+      forceCommand: 'tmux attach -t upterm',
+      sshCommand: 'ssh xyz@upterm.example.com',
+      authorizedKeys: ['SHA256:abc'],
+      connectedClients: [{address: '198.51.100.1:2222', version: 'SSH-2.0-PuTTY', fingerprint: 'SHA256:abc', user: ''}]
+    });
+  });
+
+  it('should fall back to text parsing for JSON without an SSH command', () => {
+    expect(parseSessionInfo('{"unexpected": true}')).toBeNull();
+  });
+
+  it('should return null when no SSH command is present', () => {
+    expect(parseSessionInfo('Invalid output without SSH info')).toBeNull();
+    expect(parseSessionInfo('')).toBeNull();
+  });
+});
+
+describe('getSessionSecrets', () => {
+  it('should return the SSH user and the session ID', () => {
+    const info = parseSessionInfo('ssh abc123:dXB0ZXJtZC51cHRlcm0uZGV2OjIy@uptermd.upterm.dev');
+    expect(info).not.toBeNull();
+    if (!info) return;
+
+    expect(getSessionSecrets(info)).toEqual(['abc123:dXB0ZXJtZC51cHRlcm0uZGV2OjIy', 'abc123']);
+  });
+
+  it('should not mistake the port for the SSH user', () => {
+    const info = parseSessionInfo('ssh -p 2222 abc123:bXlzZXJ2ZXI6MjIyMg==@myserver');
+    expect(info).not.toBeNull();
+    if (!info) return;
+
+    expect(getSessionSecrets(info)).toEqual(['abc123:bXlzZXJ2ZXI6MjIyMg==', 'abc123']);
+  });
+
+  it('should not repeat a session ID that is the whole SSH user', () => {
+    const info = parseSessionInfo('ssh test@upterm.dev');
+    expect(info).not.toBeNull();
+    if (!info) return;
+
+    expect(getSessionSecrets(info)).toEqual(['test']);
+  });
+});
+
+describe('formatSessionStatus', () => {
+  it('should summarise the session and its clients', () => {
+    const info = parseSessionInfo('ssh test@upterm.dev');
+    expect(info).not.toBeNull();
+    if (!info) return;
+
+    info.connectedClients.push({address: '203.0.113.7:51234', version: '', fingerprint: 'SHA256:abc', user: 'octocat'});
+    expect(formatSessionStatus(info)).toBe('Session test on upterm.dev: 1 client(s) connected\nSSH: ssh test@upterm.dev\n  - octocat 203.0.113.7:51234 SHA256:abc');
+  });
+});
+
+describe('session timeline', () => {
+  const octocat: SessionClient = {address: '203.0.113.7:51234', version: 'SSH-2.0-OpenSSH_9.6', fingerprint: 'SHA256:abc', user: 'octocat'};
+  const hubot: SessionClient = {address: '198.51.100.1:2222', version: 'SSH-2.0-PuTTY', fingerprint: 'SHA256:def', user: 'hubot'};
+
+  it('should diff connected clients', () => {
+    const now = new Date('2026-01-01T00:00:00Z');
+    expect(diffConnectedClients([octocat], [hubot], now)).toEqual([
+      {type: 'disconnect', timestamp: '2026-01-01T00:00:00.000Z', user: 'octocat', fingerprint: 'SHA256:abc', address: '203.0.113.7:51234'},
+      {type: 'connect', timestamp: '2026-01-01T00:00:00.000Z', user: 'hubot', fingerprint: 'SHA256:def', address: '198.51.100.1:2222'}
+    ]);
+    expect(diffConnectedClients([octocat], [{...octocat}], now)).toEqual([]);
+  });
+
+  it('should accumulate events and close with disconnects', () => {
+    const timeline = createSessionTimeline();
+    expect(updateSessionTimeline(timeline, [octocat], new Date('2026-01-01T00:00:00Z'))).toHaveLength(1);
+    expect(updateSessionTimeline(timeline, [octocat, hubot], new Date('2026-01-01T00:01:00Z'))).toHaveLength(1);
+    expect(updateSessionTimeline(timeline, [octocat, hubot], new Date('2026-01-01T00:02:00Z'))).toHaveLength(0);
+    expect(closeSessionTimeline(timeline, new Date('2026-01-01T00:03:00Z')).map(event => event.user)).toEqual(['octocat', 'hubot']);
+    expect(timeline.events.map(event => `${event.type}:${event.user}`)).toEqual(['connect:octocat', 'connect:hubot', 'disconnect:octocat', 'disconnect:hubot']);
+    expect(timeline.clients).toEqual([]);
+  });
+
+  it('should describe events for the log', () => {
+    const [event] = diffConnectedClients([], [octocat], new Date());
+    expect(describeSessionEvent(event)).toBe('Client connected: octocat (SHA256:abc from 203.0.113.7:51234)');
+    expect(describeSessionEvent({...event, type: 'disconnect', user: '', fingerprint: '', address: ''})).toBe('Client disconnected: unknown user');
+  });
+});
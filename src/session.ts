@@ -0,0 +1,309 @@
+/**
+ * A client currently connected to the upterm session.
+ */
+export interface SessionClient {
+  address: string;
+  version: string;
+  fingerprint: string;
+  user: string;
+}
+
+/**
+ * Typed view of `upterm session current`.
+ *
+ * Every consumer (step outputs, job summary, detached mode and the monitor
+ * loop) works from this model instead of matching upterm's human-readable
+ * output directly.
+ */
+export interface SessionInfo {
+  sessionId: string;
+  host: string;
+  command: string;
+  forceCommand: string;
+  sshCommand: string;
+  authorizedKeys: string[];
+  connectedClients: SessionClient[];
+}
+
+// Characters upterm uses to draw boxes and bullets around its text output
+const DECORATION_PATTERN = /[│┃║╭╮╰╯┌┐└┘├┤─━═➤•]/g;
+const SSH_COMMAND_PATTERN = /ssh\s+(?:-p\s*(\d+)\s+)?(\S+@\S+)/i;
+
+type RawRecord = Record<string, unknown>;
+
+function pick(record: RawRecord, ...keys: string[]): unknown {
+  for (const key of keys) {
+    if (record[key] !== undefined && record[key] !== null) return record[key];
+  }
+  return undefined;
+}
+
+function asText(value: unknown): string {
+  if (Array.isArray(value)) return value.map(String).join(' ');
+  if (value === undefined || value === null) return '';
+  return String(value).trim();
+}
+
+// Keeps the port of servers that do not listen on 22, e.g. `ssh -p 2222 user@host`
+function normalizeSshCommand(value: string): string {
+  const match = value.match(SSH_COMMAND_PATTERN);
+  if (!match) return '';
+  return match[1] ? `ssh -p ${match[1]} ${match[2]}` : `ssh ${match[2]}`;
+}
+
+// The user and host of a normalized SSH command
+function splitSshCommand(sshCommand: string): [string, string] {
+  const [user, host] = sshCommand.replace(/^ssh\s+(?:-p\s+\d+\s+)?/, '').split('@');
+  return [user, host ?? ''];
+}
+
+/**
+ * Fill in fields that can be derived from the SSH command when upterm did
+ * not print them explicitly (e.g. older versions without a session header).
+ */
+function completeSessionInfo(info: SessionInfo): SessionInfo {
+  const [user, host] = splitSshCommand(info.sshCommand);
+  return {
+    ...info,
+    sessionId: info.sessionId || user.split(':')[0],
+    host: info.host || host
+  };
+}
+
+function parseJsonClient(raw: unknown): SessionClient {
+  const record = (raw ?? {}) as RawRecord;
+  return {
+    address: asText(pick(record, 'addr', 'address', 'Addr')),
+    version: asText(pick(record, 'clientVersion', 'client_version', 'version', 'ClientVersion')),
+    fingerprint: asText(pick(record, 'publicKeyFingerprint', 'public_key_fingerprint', 'fingerprint', 'PublicKeyFingerprint')),
+    user: asText(pick(record, 'user', 'username', 'User'))
+  };
+}
+
+function parseJsonSessionInfo(output: string): SessionInfo | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(output);
+  } catch {
+    return null;
+  }
+  if (!parsed || typeof parsed !== 'object') return null;
+
+  const record = parsed as RawRecord;
+  const sshCommand = normalizeSshCommand(asText(pick(record, 'sshCommand', 'ssh_command', 'sshSession', 'SSHCommand')));
+  if (!sshCommand) return null;
+
+  const keys = pick(record, 'authorizedKeys', 'authorized_keys', 'AuthorizedKeys');
+  const clients = pick(record, 'connectedClients', 'connected_clients', 'ConnectedClients');
+  return completeSessionInfo({
+    sessionId: asText(pick(record, 'sessionId', 'session_id', 'id', 'SessionID')),
+    host: asText(pick(record, 'host', 'Host')),
+    command: asText(pick(record, 'command', 'Command')),
+    forceCommand: asText(pick(record, 'forceCommand', 'force_command', 'ForceCommand')),
+    sshCommand,
+    authorizedKeys: Array.isArray(keys) ? keys.map(asText).filter(Boolean) : [],
+    connectedClients: Array.isArray(clients) ? clients.map(parseJsonClient) : []
+  });
+}
+
+function parseTextSessionInfo(output: string): SessionInfo | null {
+  const info: SessionInfo = {
+    sessionId: '',
+    host: '',
+    command: '',
+    forceCommand: '',
+    sshCommand: '',
+    authorizedKeys: [],
+    connectedClients: []
+  };
+  let section: 'authorizedKeys' | 'connectedClients' | null = null;
+  let client: SessionClient | null = null;
+
+  for (const rawLine of output.split(/\r?\n/)) {
+    const line = rawLine.replace(DECORATION_PATTERN, ' ').trim();
+    if (!line) continue;
+
+    const header = line.match(/^===\s*(\S+)/);
+    if (header) {
+      info.sessionId = header[1];
+      section = null;
+      continue;
+    }
+
+    const isListItem = line.startsWith('- ');
+    const [rawLabel, ...rest] = (isListItem ? line.slice(2) : line).split(':');
+    const label = rawLabel.trim().toLowerCase();
+    const value = rest.join(':').trim();
+
+    if (section === 'connectedClients' && (isListItem || ['addr', 'address', 'client version', 'ssh fingerprint', 'fingerprint', 'user'].includes(label))) {
+      if (isListItem || !client) {
+        client = {address: '', version: '', fingerprint: '', user: ''};
+        info.connectedClients.push(client);
+      }
+      if (label === 'addr' || label === 'address') client.address = value;
+      else if (label === 'client version') client.version = value;
+      else if (label === 'ssh fingerprint' || label === 'fingerprint') client.fingerprint = value;
+      else if (label === 'user') client.user = value;
+      continue;
+    }
+
+    if (section === 'authorizedKeys' && isListItem) {
+      info.authorizedKeys.push(line.slice(2).trim());
+      continue;
+    }
+
+    section = null;
+    switch (label) {
+      case 'session':
+      case 'session id':
+        info.sessionId = value;
+        break;
+      case 'command':
+        info.command = value;
+        break;
+      case 'force command':
+        info.forceCommand = value === 'n/a' ? '' : value;
+        break;
+      case 'host':
+        info.host = value;
+        break;
+      case 'ssh session':
+      case 'ssh command':
+        info.sshCommand = normalizeSshCommand(value);
+        break;
+      case 'authorized keys':
+        section = 'authorizedKeys';
+        if (value && value !== 'n/a') info.authorizedKeys.push(value);
+        break;
+      case 'connected client(s)':
+      case 'connected clients':
+        section = 'connectedClients';
+        client = null;
+        break;
+    }
+  }
+
+  // Older upterm versions print the SSH command without a label
+  if (!info.sshCommand) {
+    info.sshCommand = normalizeSshCommand(output.replace(DECORATION_PATTERN, ' '));
+  }
+  if (!info.sshCommand) return null;
+
+  return completeSessionInfo(info);
+}
+
+/**
+ * Parse the output of `upterm session current`.
+ *
+ * Accepts both the JSON output of newer upterm versions and the
+ * human-readable text output. Returns null when the output does not describe
+ * a session with an SSH command.
+ *
+ * @param output - stdout of `upterm session current`
+ * @returns The parsed session, or null if the output could not be understood
+ */
+export function parseSessionInfo(output: string): SessionInfo | null {
+  const trimmed = output.trim();
+  if (trimmed.startsWith('{')) {
+    const info = parseJsonSessionInfo(trimmed);
+    if (info) return info;
+  }
+  return parseTextSessionInfo(trimmed);
+}
+
+/**
+ * The parts of a session that let anyone who knows them connect, unless
+ * access is limited to specific keys: the SSH user, which carries the session
+ * token, and the session ID on its own.
+ */
+export function getSessionSecrets(info: SessionInfo): string[] {
+  const user = splitSshCommand(info.sshCommand)[0].replace(/^"(.*)"$/, '$1');
+  return [...new Set([user, info.sessionId].filter(Boolean))];
+}
+
+/**
+ * Render a short, single-paragraph status line for the monitor loop.
+ */
+export function formatSessionStatus(info: SessionInfo): string {
+  const clients = info.connectedClients.length;
+  const lines = [`Session ${info.sessionId} on ${info.host}: ${clients} client(s) connected`, `SSH: ${info.sshCommand}`];
+  for (const client of info.connectedClients) {
+    lines.push(`  - ${[client.user, client.address, client.fingerprint].filter(Boolean).join(' ')}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * A client connecting to or disconnecting from the session.
+ */
+export interface SessionEvent {
+  type: 'connect' | 'disconnect';
+  timestamp: string;
+  user: string;
+  fingerprint: string;
+  address: string;
+}
+
+function clientKey(client: SessionClient): string {
+  return `${client.address}|${client.fingerprint}|${client.user}`;
+}
+
+function toEvent(type: SessionEvent['type'], client: SessionClient, timestamp: Date): SessionEvent {
+  return {type, timestamp: timestamp.toISOString(), user: client.user, fingerprint: client.fingerprint, address: client.address};
+}
+
+/**
+ * Compare two successive connected-client lists and describe what changed.
+ *
+ * Clients are identified by address, key fingerprint and user, so a user
+ * reconnecting from a new address shows up as a disconnect plus a connect.
+ *
+ * @param previous - Clients seen on the previous poll
+ * @param current - Clients seen on this poll
+ * @param timestamp - Time of this poll
+ * @returns Disconnect events followed by connect events
+ */
+export function diffConnectedClients(previous: SessionClient[], current: SessionClient[], timestamp: Date): SessionEvent[] {
+  const previousKeys = new Set(previous.map(clientKey));
+  const currentKeys = new Set(current.map(clientKey));
+  return [
+    ...previous.filter(client => !currentKeys.has(clientKey(client))).map(client => toEvent('disconnect', client, timestamp)),
+    ...current.filter(client => !previousKeys.has(clientKey(client))).map(client => toEvent('connect', client, timestamp))
+  ];
+}
+
+/**
+ * Connect/disconnect timeline of a session, built up poll by poll.
+ */
+export interface SessionTimeline {
+  clients: SessionClient[];
+  events: SessionEvent[];
+}
+
+export function createSessionTimeline(): SessionTimeline {
+  return {clients: [], events: []};
+}
+
+/**
+ * Record the clients seen on a poll and return the newly observed events.
+ */
+export function updateSessionTimeline(timeline: SessionTimeline, clients: SessionClient[], timestamp: Date = new Date()): SessionEvent[] {
+  const events = diffConnectedClients(timeline.clients, clients, timestamp);
+  timeline.clients = clients;
+  timeline.events.push(...events);
+  return events;
+}
+
+/**
+ * Close the timeline when the session ends, recording a disconnect for every
+ * client that was still connected.
+ */
+export function closeSessionTimeline(timeline: SessionTimeline, timestamp: Date = new Date()): SessionEvent[] {
+  return updateSessionTimeline(timeline, [], timestamp);
+}
+
+export function describeSessionEvent(event: SessionEvent): string {
+  const who = event.user || 'unknown user';
+  const details = [event.fingerprint, event.address && `from ${event.address}`].filter(Boolean).join(' ');
+  return `Client ${event.type === 'connect' ? 'connected' : 'disconnected'}: ${who}${details ? ` (${details})` : ''}`;
+}
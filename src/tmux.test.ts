@@ -0,0 +1,67 @@
+import {execFileSync} from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {buildTmuxInstallScript} from './tmux';
+
+/**
+ * Run the install script with a PATH that only contains stub commands which
+ * log how they were called.
+ */
+function runScript(stubs: Record<string, string>): {status: number; calls: string[]; stderr: string} {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tmux-install-'));
+  try {
+    const log = path.join(dir, 'calls.log');
+    fs.writeFileSync(log, '');
+    for (const [name, body] of Object.entries(stubs)) {
+      fs.writeFileSync(path.join(dir, name), `#!/bin/bash\necho "${name} $*" >> '${log}'\n${body}\n`, {mode: 0o755});
+    }
+    try {
+      execFileSync('/bin/bash', ['-c', buildTmuxInstallScript()], {env: {PATH: dir}, stdio: 'pipe'});
+      return {status: 0, calls: fs.readFileSync(log, 'utf8').trim().split('\n').filter(Boolean), stderr: ''};
+    } catch (error) {
+      const {status, stderr} = error as {status: number; stderr: Buffer};
+      return {status, calls: fs.readFileSync(log, 'utf8').trim().split('\n').filter(Boolean), stderr: stderr.toString()};
+    }
+  } finally {
+    fs.rmSync(dir, {recursive: true, force: true});
+  }
+}
+
+describe('buildTmuxInstallScript', () => {
+  it('uses passwordless sudo when not running as root', () => {
+    const result = runScript({id: 'echo 1000', sudo: '[ "$1" = -n ] && shift; "$@"', dnf: 'exit 0'});
+
+    expect(result.status).toBe(0);
+    expect(result.calls).toEqual(['id -u', 'sudo -n true', 'sudo -n dnf -y install tmux', 'dnf -y install tmux']);
+  });
+
+  it('runs the package manager directly as root', () => {
+    const result = runScript({id: 'echo 0', apk: 'exit 0', 'apt-get': 'exit 0'});
+
+    expect(result.status).toBe(0);
+    expect(result.calls).toEqual(['id -u', 'apt-get update', 'apt-get -y install tmux']);
+  });
+
+  it('fails without root or passwordless sudo', () => {
+    const result = runScript({id: 'echo 1000', sudo: 'exit 1', zypper: 'exit 0'});
+
+    expect(result.status).toBe(1);
+    expect(result.stderr).toContain('Not running as root and passwordless sudo is not available');
+    expect(result.calls).not.toContain('zypper --non-interactive install tmux');
+  });
+
+  it('fails when no supported package manager is found', () => {
+    const result = runScript({id: 'echo 0'});
+
+    expect(result.status).toBe(1);
+    expect(result.stderr).toContain('None of the supported package managers was found: apt-get, dnf, yum, apk, zypper, pacman');
+  });
+
+  it('fails when the package manager fails', () => {
+    const result = runScript({id: 'echo 0', pacman: 'exit 1'});
+
+    expect(result.status).toBe(1);
+    expect(result.calls).toEqual(['id -u', 'pacman -Sy --noconfirm tmux']);
+  });
+});
@@ -0,0 +1,44 @@
+// Installation of tmux on Linux runners.
+//
+// Runners differ in distribution (and hence package manager) and in whether
+// the job runs as root, with passwordless sudo, or neither. The install script
+// tries the first package manager it finds, using sudo only when needed.
+
+export interface PackageManager {
+  command: string;
+  // Shell command that installs tmux, with `$sudo` in front of privileged commands
+  install: string;
+}
+
+export const LINUX_PACKAGE_MANAGERS: PackageManager[] = [
+  {command: 'apt-get', install: '$sudo apt-get update && $sudo apt-get -y install tmux'},
+  {command: 'dnf', install: '$sudo dnf -y install tmux'},
+  {command: 'yum', install: '$sudo yum -y install tmux'},
+  {command: 'apk', install: '$sudo apk add --no-cache tmux'},
+  {command: 'zypper', install: '$sudo zypper --non-interactive install tmux'},
+  {command: 'pacman', install: '$sudo pacman -Sy --noconfirm tmux'}
+];
+
+/**
+ * Build a bash script that installs tmux with the first available package
+ * manager. It runs the package manager directly as root, with `sudo -n` if
+ * passwordless sudo is available, and fails otherwise.
+ */
+export function buildTmuxInstallScript(packageManagers: PackageManager[] = LINUX_PACKAGE_MANAGERS): string {
+  const names = packageManagers.map(manager => manager.command).join(', ');
+  return [
+    'if [ "$(id -u)" -eq 0 ]; then',
+    '  sudo=',
+    'elif command -v sudo >/dev/null 2>&1 && sudo -n true >/dev/null 2>&1; then',
+    "  sudo='sudo -n'",
+    'else',
+    "  echo 'Not running as root and passwordless sudo is not available' >&2",
+    '  exit 1',
+    'fi',
+    ...packageManagers.flatMap((manager, index) => [`${index === 0 ? 'if' : 'elif'} command -v ${manager.command} >/dev/null 2>&1; then`, `  ${manager.install}`]),
+    'else',
+    `  echo 'None of the supported package managers was found: ${names}' >&2`,
+    '  exit 1',
+    'fi'
+  ].join('\n');
+}
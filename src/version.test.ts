@@ -0,0 +1,28 @@
+import {parseUptermVersion, satisfiesVersionSpec, UptermVersion} from './version';
+
+function version(text: string): UptermVersion {
+  return parseUptermVersion(text) as UptermVersion;
+}
+
+describe('parseUptermVersion', () => {
+  it('extracts the version from the output of upterm version', () => {
+    expect(parseUptermVersion('Upterm version v0.20.0\n')).toEqual({major: 0, minor: 20, patch: 0, prerelease: '', version: '0.20.0'});
+    expect(parseUptermVersion('upterm version 0.14.3')).toEqual({major: 0, minor: 14, patch: 3, prerelease: '', version: '0.14.3'});
+    expect(parseUptermVersion('Upterm version v0.21.0-rc.1')).toEqual({major: 0, minor: 21, patch: 0, prerelease: 'rc.1', version: '0.21.0-rc.1'});
+  });
+
+  it('returns null when there is no version', () => {
+    expect(parseUptermVersion('bash: upterm: command not found')).toBeNull();
+    expect(parseUptermVersion('')).toBeNull();
+  });
+});
+
+describe('satisfiesVersionSpec', () => {
+  it('accepts exact tags and semver ranges', () => {
+    expect(satisfiesVersionSpec(version('0.20.0'), 'v0.20.0')).toBe(true);
+    expect(satisfiesVersionSpec(version('0.20.1'), '^0.20')).toBe(true);
+    expect(satisfiesVersionSpec(version('0.19.1'), '~0.19.1')).toBe(true);
+    expect(satisfiesVersionSpec(version('0.19.1'), '^0.20')).toBe(false);
+    expect(satisfiesVersionSpec(version('0.20.1'), 'v0.20.0')).toBe(false);
+  });
+});
@@ -0,0 +1,41 @@
+// Version of the installed upterm binary.
+//
+// The Action talks to whichever upterm it installed (e.g. a pinned
+// `upterm-version` or a preinstalled binary), so it reports the version that
+// binary prints and checks it against `upterm-version`.
+
+import * as tc from '@actions/tool-cache';
+
+export interface UptermVersion {
+  major: number;
+  minor: number;
+  patch: number;
+  // e.g. `rc.1`, or empty for releases
+  prerelease: string;
+  // e.g. `0.20.0`, without the `v` prefix
+  version: string;
+}
+
+const VERSION_PATTERN = /\bv?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?\b/;
+
+/**
+ * Parse the output of `upterm version`, e.g. `Upterm version v0.20.0`.
+ *
+ * @returns The version, or null if the output contains no version
+ */
+export function parseUptermVersion(output: string): UptermVersion | null {
+  const match = output.match(VERSION_PATTERN);
+  if (!match) {
+    return null;
+  }
+  const [, major, minor, patch, prerelease = ''] = match;
+  return {major: Number(major), minor: Number(minor), patch: Number(patch), prerelease, version: match[0].replace(/^v/, '')};
+}
+
+/**
+ * Whether the version satisfies `upterm-version`: an exact tag such as
+ * `v0.20.0` or a semver range such as `^0.20`.
+ */
+export function satisfiesVersionSpec(version: UptermVersion, spec: string): boolean {
+  return tc.evaluateVersions([version.version], spec) !== '';
+}